@@ -1,5 +1,6 @@
 import powerbi from "powerbi-visuals-api";
 import { formattingSettings } from "powerbi-visuals-utils-formattingmodel";
+import { dataViewWildcard } from "powerbi-visuals-utils-dataviewutils";
 
 import Model = formattingSettings.Model;
 import SimpleCard = formattingSettings.SimpleCard;
@@ -8,10 +9,24 @@ import ColorPicker = formattingSettings.ColorPicker;
 import NumUpDown = formattingSettings.NumUpDown;
 import ItemDropdown = formattingSettings.ItemDropdown;
 import TextInput = formattingSettings.TextInput;
+import AutoDropdown = formattingSettings.AutoDropdown;
+import Slice = formattingSettings.Slice;
+
+// fx rules are evaluated per data row (instances and totals); the constant value stays a static setting.
+const nodeColorSelector = {
+  selector: dataViewWildcard.createDataViewWildcardSelector(
+    dataViewWildcard.DataViewWildcardMatchingOption.InstancesAndTotals
+  ),
+  altConstantSelector: null,
+  instanceKind: powerbi.VisualEnumerationInstanceKinds.ConstantOrRule
+};
 
 const orientationOptions: powerbi.IEnumMember[] = [
   { value: "TD", displayName: "Top-Down" },
-  { value: "LR", displayName: "Left-Right" }
+  { value: "BU", displayName: "Bottom-Up" },
+  { value: "LR", displayName: "Left-Right" },
+  { value: "RL", displayName: "Right-Left" },
+  { value: "radial", displayName: "Radial" }
 ];
 
 const lineStyleOptions: powerbi.IEnumMember[] = [
@@ -19,6 +34,13 @@ const lineStyleOptions: powerbi.IEnumMember[] = [
   { value: "dashed", displayName: "Dashed" }
 ];
 
+const linkShapeOptions: powerbi.IEnumMember[] = [
+  { value: "elbow", displayName: "Elbow" },
+  { value: "rounded", displayName: "Rounded elbow" },
+  { value: "curved", displayName: "Curved" },
+  { value: "straight", displayName: "Straight" }
+];
+
 const lineTipOptions: powerbi.IEnumMember[] = [
   { value: "arrow", displayName: "Arrow" },
   { value: "none", displayName: "None" },
@@ -33,9 +55,78 @@ const shapeOptions: powerbi.IEnumMember[] = [
   { value: "pill", displayName: "Pill" }
 ];
 
+const imageShapeOptions: powerbi.IEnumMember[] = [
+  { value: "circle", displayName: "Circle" },
+  { value: "square", displayName: "Square" }
+];
+
+const imagePositionOptions: powerbi.IEnumMember[] = [
+  { value: "left", displayName: "Left" },
+  { value: "top", displayName: "Top" }
+];
+
+const sparklineTypeOptions: powerbi.IEnumMember[] = [
+  { value: "line", displayName: "Line" },
+  { value: "area", displayName: "Area" }
+];
+
+const sparklineScaleOptions: powerbi.IEnumMember[] = [
+  { value: "shared", displayName: "Shared" },
+  { value: "perNode", displayName: "Per node" }
+];
+
+const rollupOptions: powerbi.IEnumMember[] = [
+  { value: "none", displayName: "None" },
+  { value: "sum", displayName: "Sum" },
+  { value: "average", displayName: "Average" },
+  { value: "min", displayName: "Min" },
+  { value: "max", displayName: "Max" },
+  { value: "descendants", displayName: "Count of descendants" },
+  { value: "leaves", displayName: "Count of leaves" }
+];
+
+const kpiDirectionOptions: powerbi.IEnumMember[] = [
+  { value: "higherIsBetter", displayName: "Higher is better" },
+  { value: "lowerIsBetter", displayName: "Lower is better" }
+];
+
+const sortByOptions: powerbi.IEnumMember[] = [
+  { value: "none", displayName: "Data order" },
+  { value: "label", displayName: "Label" },
+  { value: "value", displayName: "Value" },
+  { value: "total", displayName: "Subtree total" },
+  { value: "count", displayName: "Descendant count" },
+  { value: "field", displayName: "Sort by field" }
+];
+
+const sortDirectionOptions: powerbi.IEnumMember[] = [
+  { value: "ascending", displayName: "Ascending" },
+  { value: "descending", displayName: "Descending" }
+];
+
+const easingOptions: powerbi.IEnumMember[] = [
+  { value: "easeInOut", displayName: "Ease in-out" },
+  { value: "easeOut", displayName: "Ease out" },
+  { value: "linear", displayName: "Linear" }
+];
+
 const viewOptions: powerbi.IEnumMember[] = [
   { value: "tree", displayName: "Tree" },
-  { value: "table", displayName: "Table" }
+  { value: "table", displayName: "Table" },
+  { value: "treemap", displayName: "Treemap" },
+  { value: "icicle", displayName: "Icicle" }
+];
+
+const minimapPositionOptions: powerbi.IEnumMember[] = [
+  { value: "bottomRight", displayName: "Bottom right" },
+  { value: "bottomLeft", displayName: "Bottom left" },
+  { value: "topRight", displayName: "Top right" },
+  { value: "topLeft", displayName: "Top left" }
+];
+
+const partitionSizeOptions: powerbi.IEnumMember[] = [
+  { value: "value", displayName: "Value" },
+  { value: "count", displayName: "Descendant count" }
 ];
 
 const textAlignOptions: powerbi.IEnumMember[] = [
@@ -64,7 +155,53 @@ class LayoutCardSettings extends SimpleCard {
     new NumUpDown({ name: "levelSpacing", displayName: "Level spacing", value: 70 }),
     new NumUpDown({ name: "siblingSpacing", displayName: "Sibling spacing", value: 18 }),
     new NumUpDown({ name: "cardWidth", displayName: "Card width", value: 120 }),
-    new NumUpDown({ name: "cardHeight", displayName: "Card height", value: 40 })
+    new NumUpDown({ name: "cardHeight", displayName: "Card height", value: 40 }),
+    new ToggleSwitch({ name: "autoSize", displayName: "Auto-size cards", value: false }),
+    new NumUpDown({ name: "minCardWidth", displayName: "Min card width", value: 100 }),
+    new NumUpDown({ name: "maxCardWidth", displayName: "Max card width", value: 280 }),
+    new NumUpDown({ name: "minCardHeight", displayName: "Min card height", value: 40 }),
+    new NumUpDown({ name: "maxCardHeight", displayName: "Max card height", value: 200 }),
+    new ToggleSwitch({ name: "allowMultipleParents", displayName: "Allow multiple parents", value: false }),
+    new ToggleSwitch({ name: "rotateLabels", displayName: "Rotate radial labels", value: true }),
+    new ToggleSwitch({ name: "compactLeaves", displayName: "Stack leaf children", value: false }),
+    new NumUpDown({ name: "compactColumns", displayName: "Stack columns", value: 2 }),
+    new NumUpDown({ name: "blockZoom", displayName: "Blocks below zoom (%)", value: 0 }),
+    new NumUpDown({ name: "silhouetteZoom", displayName: "Silhouettes below zoom (%)", value: 0 }),
+    new NumUpDown({ name: "detailZoom", displayName: "Extra detail from zoom (%)", value: 0 })
+  ];
+}
+
+class SortCardSettings extends SimpleCard {
+  name = "sort";
+  displayName = "Sort order";
+  slices = [
+    new ItemDropdown({
+      name: "by",
+      displayName: "Sort siblings by",
+      items: sortByOptions,
+      value: sortByOptions[0]
+    }),
+    new ItemDropdown({
+      name: "direction",
+      displayName: "Direction",
+      items: sortDirectionOptions,
+      value: sortDirectionOptions[0]
+    })
+  ];
+}
+
+class AnimationCardSettings extends SimpleCard {
+  name = "animation";
+  displayName = "Animation";
+  slices = [
+    new ToggleSwitch({ name: "show", displayName: "Animate changes", value: true }),
+    new NumUpDown({ name: "duration", displayName: "Duration (ms)", value: 400 }),
+    new ItemDropdown({
+      name: "easing",
+      displayName: "Easing",
+      items: easingOptions,
+      value: easingOptions[0]
+    })
   ];
 }
 
@@ -87,6 +224,7 @@ class LinesCardSettings extends SimpleCard {
   slices = [
     new ColorPicker({ name: "lineColor", displayName: "Line color", value: { value: "#f3b27a" } }),
     new ColorPicker({ name: "activeColor", displayName: "Active line color", value: { value: "#f08b2e" } }),
+    new ColorPicker({ name: "crossLinkColor", displayName: "Secondary link color", value: { value: "#94a3b8" } }),
     new NumUpDown({ name: "lineWidth", displayName: "Line width", value: 1 }),
     new ItemDropdown({
       name: "lineStyle",
@@ -94,6 +232,13 @@ class LinesCardSettings extends SimpleCard {
       items: lineStyleOptions,
       value: lineStyleOptions[0]
     }),
+    new ItemDropdown({
+      name: "linkShape",
+      displayName: "Link shape",
+      items: linkShapeOptions,
+      value: linkShapeOptions[0]
+    }),
+    new NumUpDown({ name: "linkCornerRadius", displayName: "Corner radius", value: 8 }),
     new ToggleSwitch({ name: "showArrows", displayName: "Show pointers", value: true }),
     new ItemDropdown({
       name: "tipStyle",
@@ -101,7 +246,10 @@ class LinesCardSettings extends SimpleCard {
       items: lineTipOptions,
       value: lineTipOptions[0]
     }),
-    new NumUpDown({ name: "tipSize", displayName: "Tip size", value: 6 })
+    new NumUpDown({ name: "tipSize", displayName: "Tip size", value: 6 }),
+    new NumUpDown({ name: "linkMinWidth", displayName: "Link value min width", value: 1 }),
+    new NumUpDown({ name: "linkMaxWidth", displayName: "Link value max width", value: 8 }),
+    new ToggleSwitch({ name: "showLinkLabels", displayName: "Link value labels", value: false })
   ];
 }
 
@@ -109,8 +257,8 @@ class NodesCardSettings extends SimpleCard {
   name = "nodes";
   displayName = "Nodes";
   slices = [
-    new ColorPicker({ name: "fillColor", displayName: "Fill color", value: { value: "#ffffff" } }),
-    new ColorPicker({ name: "strokeColor", displayName: "Border color", value: { value: "#e5e7eb" } }),
+    new ColorPicker({ name: "fillColor", displayName: "Fill color", value: { value: "#ffffff" }, ...nodeColorSelector }),
+    new ColorPicker({ name: "strokeColor", displayName: "Border color", value: { value: "#e5e7eb" }, ...nodeColorSelector }),
     new NumUpDown({ name: "strokeWidth", displayName: "Border width", value: 1 }),
     new NumUpDown({ name: "cornerRadius", displayName: "Corner radius", value: 6 }),
     new ItemDropdown({
@@ -120,7 +268,7 @@ class NodesCardSettings extends SimpleCard {
       value: shapeOptions[0]
     }),
     new ToggleSwitch({ name: "showShadow", displayName: "Shadow", value: true }),
-    new ColorPicker({ name: "titleColor", displayName: "Title color", value: { value: "#111827" } }),
+    new ColorPicker({ name: "titleColor", displayName: "Title color", value: { value: "#111827" }, ...nodeColorSelector }),
     new ColorPicker({ name: "valueColor", displayName: "Value color", value: { value: "#6b7280" } }),
     new ItemDropdown({
       name: "titleAlign",
@@ -141,7 +289,89 @@ class NodesCardSettings extends SimpleCard {
       displayName: "Title font style",
       items: fontStyleOptions,
       value: fontStyleOptions[1]
-    })
+    }),
+    new AutoDropdown({ name: "displayUnits", displayName: "Display units", value: 0 }),
+    new NumUpDown({ name: "decimalPlaces", displayName: "Decimal places", value: null })
+  ];
+}
+
+class ImageCardSettings extends SimpleCard {
+  name = "image";
+  displayName = "Image";
+  slices = [
+    new ToggleSwitch({ name: "show", displayName: "Show image", value: true }),
+    new ItemDropdown({
+      name: "shape",
+      displayName: "Shape",
+      items: imageShapeOptions,
+      value: imageShapeOptions[0]
+    }),
+    new NumUpDown({ name: "size", displayName: "Size", value: 28 }),
+    new ItemDropdown({
+      name: "position",
+      displayName: "Position",
+      items: imagePositionOptions,
+      value: imagePositionOptions[0]
+    }),
+    new ToggleSwitch({ name: "showInitials", displayName: "Fallback initials", value: true }),
+    new ColorPicker({ name: "initialsBackground", displayName: "Initials background", value: { value: "#e5e7eb" } }),
+    new ColorPicker({ name: "initialsColor", displayName: "Initials color", value: { value: "#374151" } })
+  ];
+}
+
+class SparklineCardSettings extends SimpleCard {
+  name = "sparkline";
+  displayName = "Sparkline";
+  slices = [
+    new ItemDropdown({
+      name: "chartType",
+      displayName: "Chart type",
+      items: sparklineTypeOptions,
+      value: sparklineTypeOptions[0]
+    }),
+    new ItemDropdown({
+      name: "scale",
+      displayName: "Y scale",
+      items: sparklineScaleOptions,
+      value: sparklineScaleOptions[0]
+    }),
+    new ColorPicker({ name: "lineColor", displayName: "Line color", value: { value: "#f08b2e" } }),
+    new ToggleSwitch({ name: "showMinMarker", displayName: "Min marker", value: true }),
+    new ToggleSwitch({ name: "showMaxMarker", displayName: "Max marker", value: true }),
+    new ToggleSwitch({ name: "showLastMarker", displayName: "Last marker", value: true })
+  ];
+}
+
+class RollupCardSettings extends SimpleCard {
+  name = "rollup";
+  displayName = "Rollup";
+  slices = [
+    new ItemDropdown({
+      name: "mode",
+      displayName: "Rollup",
+      items: rollupOptions,
+      value: rollupOptions[0]
+    }),
+    new ToggleSwitch({ name: "showOwnValue", displayName: "Show own value", value: false })
+  ];
+}
+
+class KpiCardSettings extends SimpleCard {
+  name = "kpi";
+  displayName = "KPI";
+  slices = [
+    new ToggleSwitch({ name: "show", displayName: "Show KPI", value: true }),
+    new ItemDropdown({
+      name: "direction",
+      displayName: "Direction",
+      items: kpiDirectionOptions,
+      value: kpiDirectionOptions[0]
+    }),
+    new NumUpDown({ name: "goodThreshold", displayName: "Good at variance % (≥)", value: 0 }),
+    new NumUpDown({ name: "badThreshold", displayName: "Bad below variance %", value: -5 }),
+    new ColorPicker({ name: "goodColor", displayName: "Good color", value: { value: "#16a34a" } }),
+    new ColorPicker({ name: "neutralColor", displayName: "Neutral color", value: { value: "#d97706" } }),
+    new ColorPicker({ name: "badColor", displayName: "Bad color", value: { value: "#dc2626" } })
   ];
 }
 
@@ -177,7 +407,24 @@ class ControlsCardSettings extends SimpleCard {
       items: viewOptions,
       value: viewOptions[0]
     }),
-    new NumUpDown({ name: "doubleClickZoomPercent", displayName: "Double-click zoom (%)", value: 130 })
+    new NumUpDown({ name: "doubleClickZoomPercent", displayName: "Double-click zoom (%)", value: 130 }),
+    new NumUpDown({ name: "expandLevel", displayName: "Expand to level (0 = all)", value: 0 }),
+    new ToggleSwitch({ name: "showMinimapToggle", displayName: "Show minimap toggle", value: true })
+  ];
+}
+
+class MinimapCardSettings extends SimpleCard {
+  name = "minimap";
+  displayName = "Minimap";
+  slices = [
+    new ToggleSwitch({ name: "show", displayName: "Show minimap", value: false }),
+    new ItemDropdown({
+      name: "position",
+      displayName: "Position",
+      items: minimapPositionOptions,
+      value: minimapPositionOptions[0]
+    }),
+    new NumUpDown({ name: "size", displayName: "Size", value: 160 })
   ];
 }
 
@@ -187,26 +434,108 @@ class TableCardSettings extends SimpleCard {
   slices = [
     new ToggleSwitch({ name: "showHeader", displayName: "Show header", value: true }),
     new NumUpDown({ name: "rowHeight", displayName: "Row height", value: 28 }),
-    new ToggleSwitch({ name: "zebra", displayName: "Zebra rows", value: true })
+    new ToggleSwitch({ name: "zebra", displayName: "Zebra rows", value: true }),
+    new AutoDropdown({ name: "displayUnits", displayName: "Display units", value: 0 }),
+    new NumUpDown({ name: "decimalPlaces", displayName: "Decimal places", value: null })
   ];
 }
 
+class PartitionCardSettings extends SimpleCard {
+  name = "partition";
+  displayName = "Treemap & icicle";
+  slices = [
+    new ItemDropdown({
+      name: "sizeBy",
+      displayName: "Size by",
+      items: partitionSizeOptions,
+      value: partitionSizeOptions[0]
+    }),
+    new ToggleSwitch({ name: "showValues", displayName: "Show values", value: true }),
+    new NumUpDown({ name: "padding", displayName: "Padding", value: 2 })
+  ];
+}
+
+class DiagnosticsCardSettings extends SimpleCard {
+  name = "diagnostics";
+  displayName = "Diagnostics";
+  slices = [
+    new ToggleSwitch({ name: "showPanel", displayName: "Show diagnostics panel", value: true }),
+    new TextInput({
+      name: "unresolvedLabel",
+      displayName: "Unresolved group label",
+      value: "Unresolved",
+      placeholder: "Unresolved"
+    }),
+    new ToggleSwitch({ name: "groupOrphans", displayName: "Group missing parents", value: false }),
+    new ToggleSwitch({ name: "benchmark", displayName: "Show render benchmark", value: false })
+  ];
+}
+
+class InputCardSettings extends SimpleCard {
+  name = "input";
+  displayName = "Hierarchy input";
+  slices = [
+    new TextInput({ name: "pathDelimiter", displayName: "Path delimiter", value: "/", placeholder: "/" }),
+    new NumUpDown({ name: "maxRows", displayName: "Max rows", value: 100000 })
+  ];
+}
+
+class MeasuresCardSettings extends SimpleCard {
+  name = "measures";
+  displayName = "Measures";
+  visible = false;
+  slices: Slice[] = [];
+}
+
 export class VisualFormattingSettingsModel extends Model {
   layout = new LayoutCardSettings();
+  sort = new SortCardSettings();
+  animation = new AnimationCardSettings();
   appearance = new AppearanceCardSettings();
   lines = new LinesCardSettings();
   nodes = new NodesCardSettings();
+  image = new ImageCardSettings();
+  sparkline = new SparklineCardSettings();
+  rollup = new RollupCardSettings();
+  kpi = new KpiCardSettings();
   levels = new LevelsCardSettings();
   controls = new ControlsCardSettings();
+  minimap = new MinimapCardSettings();
   table = new TableCardSettings();
+  partition = new PartitionCardSettings();
+  diagnostics = new DiagnosticsCardSettings();
+  input = new InputCardSettings();
+  measures = new MeasuresCardSettings();
 
   cards = [
     this.layout,
+    this.sort,
+    this.animation,
     this.appearance,
     this.lines,
     this.nodes,
+    this.image,
+    this.sparkline,
+    this.rollup,
+    this.kpi,
     this.levels,
     this.controls,
-    this.table
+    this.minimap,
+    this.table,
+    this.partition,
+    this.diagnostics,
+    this.input,
+    this.measures
   ];
+
+  /** One "Show on card" toggle per bound measure, keyed by the measure's queryName. */
+  public populateMeasures(measures: Array<{ displayName: string; queryName: string; showOnCard: boolean }>): void {
+    this.measures.slices = measures.map(m => new ToggleSwitch({
+      name: "showOnCard",
+      displayName: m.displayName,
+      value: m.showOnCard,
+      selector: { metadata: m.queryName }
+    }));
+    this.measures.visible = measures.length > 0;
+  }
 }
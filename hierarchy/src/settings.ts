@@ -1,12 +1,24 @@
 import powerbi from "powerbi-visuals-api";
 
-export type Orientation = "TD" | "LR";
+export type Orientation = "TD" | "BU" | "LR" | "RL" | "radial";
 export type LineStyle = "solid" | "dashed";
+export type LinkShape = "elbow" | "rounded" | "curved" | "straight";
 export type LineTipStyle = "arrow" | "none" | "square" | "diamond" | "circle";
 export type TextAlign = "left" | "center" | "right";
 export type FontStyle = "normal" | "bold" | "italic" | "boldItalic";
 export type NodeShape = "rounded" | "square" | "pill";
-export type ViewMode = "tree" | "table";
+export type ViewMode = "tree" | "table" | "treemap" | "icicle";
+export type PartitionSize = "value" | "count";
+export type SortBy = "none" | "label" | "value" | "total" | "count" | "field";
+export type SortDirection = "ascending" | "descending";
+export type MinimapPosition = "bottomRight" | "bottomLeft" | "topRight" | "topLeft";
+export type ImageShape = "circle" | "square";
+export type ImagePosition = "left" | "top";
+export type SparklineType = "line" | "area";
+export type SparklineScale = "shared" | "perNode";
+export type RollupMode = "none" | "sum" | "average" | "min" | "max" | "descendants" | "leaves";
+export type Easing = "easeInOut" | "easeOut" | "linear";
+export type KpiDirection = "higherIsBetter" | "lowerIsBetter";
 
 export interface LayoutSettings {
   orientation: Orientation;
@@ -14,6 +26,39 @@ export interface LayoutSettings {
   siblingSpacing: number;
   cardWidth: number;
   cardHeight: number;
+  /** Size each card to its content within the min/max bounds (card width/height are then unused) */
+  autoSize: boolean;
+  minCardWidth: number;
+  maxCardWidth: number;
+  minCardHeight: number;
+  maxCardHeight: number;
+  allowMultipleParents: boolean;
+  /** Radial only: turn cards along their ray instead of keeping them level */
+  rotateLabels: boolean;
+  /** Compact org-chart layout (Top-Down only): leaf siblings stacked under the parent */
+  compactLeaves: boolean;
+  compactColumns: number;
+  /**
+   * Semantic zoom thresholds in percent: plain blocks, subtree silhouettes, extra detail (0 disables,
+   * the default). Silhouettes never start above blocks, so every enabled level stays reachable.
+   */
+  blockZoom: number;
+  silhouetteZoom: number;
+  detailZoom: number;
+}
+
+/** Sibling order in the tree and table views; "none" keeps data order */
+export interface SortSettings {
+  /** "value" and "total" use the first Values measure; "field" uses the Sort by measure */
+  by: SortBy;
+  direction: SortDirection;
+}
+
+/** Layout transitions; always skipped when the OS asks for reduced motion */
+export interface AnimationSettings {
+  show: boolean;
+  duration: number;
+  easing: Easing;
 }
 
 export interface AppearanceSettings {
@@ -24,11 +69,18 @@ export interface AppearanceSettings {
 export interface LineSettings {
   lineColor: string;
   activeColor: string;
+  crossLinkColor: string;
   lineWidth: number;
   lineStyle: LineStyle;
+  linkShape: LinkShape;
+  /** Corner radius for rounded elbows, in px */
+  linkCornerRadius: number;
   showArrows: boolean;
   tipStyle: LineTipStyle;
   tipSize: number;
+  linkMinWidth: number;
+  linkMaxWidth: number;
+  showLinkLabels: boolean;
 }
 
 export interface NodeSettings {
@@ -45,6 +97,42 @@ export interface NodeSettings {
   titleFontSize: number;
   titleFontFamily: string;
   titleFontStyle: FontStyle;
+  displayUnits: number;
+  decimalPlaces: number | null;
+}
+
+export interface ImageSettings {
+  show: boolean;
+  shape: ImageShape;
+  size: number;
+  position: ImagePosition;
+  showInitials: boolean;
+  initialsBackground: string;
+  initialsColor: string;
+}
+
+export interface SparklineSettings {
+  chartType: SparklineType;
+  scale: SparklineScale;
+  lineColor: string;
+  showMinMarker: boolean;
+  showMaxMarker: boolean;
+  showLastMarker: boolean;
+}
+
+export interface RollupSettings {
+  mode: RollupMode;
+  showOwnValue: boolean;
+}
+
+export interface KpiSettings {
+  show: boolean;
+  direction: KpiDirection;
+  goodThreshold: number;
+  badThreshold: number;
+  goodColor: string;
+  neutralColor: string;
+  badColor: string;
 }
 
 export interface LevelSettings {
@@ -63,22 +151,71 @@ export interface ControlSettings {
   showCollapseExpand: boolean;
   defaultView: ViewMode;
   doubleClickZoomPercent: number;
+  /** Levels shown expanded on load when no collapse state is saved (roots are level 1; 0 = all) */
+  expandLevel: number;
+  /** Toolbar button that shows or hides the minimap for the session */
+  showMinimapToggle: boolean;
+}
+
+/** Overview of the whole tree with the current viewport; tree view only */
+export interface MinimapSettings {
+  show: boolean;
+  position: MinimapPosition;
+  /** Longer side of the minimap in px */
+  size: number;
 }
 
 export interface TableSettings {
   showHeader: boolean;
   rowHeight: number;
   zebra: boolean;
+  displayUnits: number;
+  decimalPlaces: number | null;
+}
+
+/** Treemap and icicle views */
+export interface PartitionSettings {
+  /** Leaf areas follow the first Values measure, or every node counts once */
+  sizeBy: PartitionSize;
+  showValues: boolean;
+  padding: number;
+}
+
+export interface DiagnosticsSettings {
+  showPanel: boolean;
+  unresolvedLabel: string;
+  groupOrphans: boolean;
+  /** Adds a Run button to the panel that times culled vs full redraws once per click */
+  benchmark: boolean;
+}
+
+export interface InputSettings {
+  pathDelimiter: string;
+  maxRows: number;
+}
+
+export interface MeasureSettings {
+  showOnCard: boolean;
 }
 
 export interface VisualSettings {
   layout: LayoutSettings;
+  sort: SortSettings;
+  animation: AnimationSettings;
   appearance: AppearanceSettings;
   lines: LineSettings;
   nodes: NodeSettings;
+  image: ImageSettings;
+  sparkline: SparklineSettings;
+  rollup: RollupSettings;
+  kpi: KpiSettings;
   levels: LevelSettings;
   controls: ControlSettings;
+  minimap: MinimapSettings;
   table: TableSettings;
+  partition: PartitionSettings;
+  diagnostics: DiagnosticsSettings;
+  input: InputSettings;
 }
 
 export const DefaultLayoutSettings: LayoutSettings = {
@@ -86,11 +223,32 @@ export const DefaultLayoutSettings: LayoutSettings = {
   levelSpacing: 70,
   siblingSpacing: 18,
   cardWidth: 120,
-  cardHeight: 40
+  cardHeight: 40,
+  autoSize: false,
+  minCardWidth: 100,
+  maxCardWidth: 280,
+  minCardHeight: 40,
+  maxCardHeight: 200,
+  allowMultipleParents: false,
+  rotateLabels: true,
+  compactLeaves: false,
+  compactColumns: 2,
+  blockZoom: 0,
+  silhouetteZoom: 0,
+  detailZoom: 0
 };
 
 export const DefaultVisualSettings: VisualSettings = {
   layout: DefaultLayoutSettings,
+  sort: {
+    by: "none",
+    direction: "ascending"
+  },
+  animation: {
+    show: true,
+    duration: 400,
+    easing: "easeInOut"
+  },
   appearance: {
     useBackground: true,
     backgroundColor: "#ffffff"
@@ -98,11 +256,17 @@ export const DefaultVisualSettings: VisualSettings = {
   lines: {
     lineColor: "#f3b27a",
     activeColor: "#f08b2e",
+    crossLinkColor: "#94a3b8",
     lineWidth: 1,
     lineStyle: "solid",
+    linkShape: "elbow",
+    linkCornerRadius: 8,
     showArrows: true,
     tipStyle: "arrow",
-    tipSize: 6
+    tipSize: 6,
+    linkMinWidth: 1,
+    linkMaxWidth: 8,
+    showLinkLabels: false
   },
   nodes: {
     fillColor: "#ffffff",
@@ -117,7 +281,39 @@ export const DefaultVisualSettings: VisualSettings = {
     titleWrap: true,
     titleFontSize: 11,
     titleFontFamily: "Segoe UI",
-    titleFontStyle: "bold"
+    titleFontStyle: "bold",
+    displayUnits: 0,
+    decimalPlaces: null
+  },
+  image: {
+    show: true,
+    shape: "circle",
+    size: 28,
+    position: "left",
+    showInitials: true,
+    initialsBackground: "#e5e7eb",
+    initialsColor: "#374151"
+  },
+  sparkline: {
+    chartType: "line",
+    scale: "shared",
+    lineColor: "#f08b2e",
+    showMinMarker: true,
+    showMaxMarker: true,
+    showLastMarker: true
+  },
+  rollup: {
+    mode: "none",
+    showOwnValue: false
+  },
+  kpi: {
+    show: true,
+    direction: "higherIsBetter",
+    goodThreshold: 0,
+    badThreshold: -5,
+    goodColor: "#16a34a",
+    neutralColor: "#d97706",
+    badColor: "#dc2626"
   },
   levels: {
     enable: false,
@@ -140,25 +336,63 @@ export const DefaultVisualSettings: VisualSettings = {
     showViewToggle: true,
     showCollapseExpand: true,
     defaultView: "tree",
-    doubleClickZoomPercent: 130
+    doubleClickZoomPercent: 130,
+    expandLevel: 0,
+    showMinimapToggle: true
+  },
+  minimap: {
+    show: false,
+    position: "bottomRight",
+    size: 160
   },
   table: {
     showHeader: true,
     rowHeight: 28,
-    zebra: true
+    zebra: true,
+    displayUnits: 0,
+    decimalPlaces: null
+  },
+  partition: {
+    sizeBy: "value",
+    showValues: true,
+    padding: 2
+  },
+  diagnostics: {
+    showPanel: true,
+    unresolvedLabel: "Unresolved",
+    groupOrphans: false,
+    benchmark: false
+  },
+  input: {
+    pathDelimiter: "/",
+    maxRows: 100000
   }
 };
 
+export const DefaultMeasureSettings: MeasureSettings = {
+  showOnCard: true
+};
+
 export function getVisualSettings(dataView?: powerbi.DataView): VisualSettings {
   const objects = (dataView?.metadata?.objects ?? {}) as any;
 
   const layout = objects.layout ?? {};
+  const sort = objects.sort ?? {};
+  const animation = objects.animation ?? {};
   const appearance = objects.appearance ?? {};
   const lines = objects.lines ?? {};
   const nodes = objects.nodes ?? {};
+  const image = objects.image ?? {};
+  const sparkline = objects.sparkline ?? {};
+  const rollup = objects.rollup ?? {};
+  const kpi = objects.kpi ?? {};
   const levels = objects.levels ?? {};
   const controls = objects.controls ?? {};
+  const minimap = objects.minimap ?? {};
   const table = objects.table ?? {};
+  const partition = objects.partition ?? {};
+  const diagnostics = objects.diagnostics ?? {};
+  const input = objects.input ?? {};
 
   const levelColors = [
     toColor(levels.level1Color, DefaultVisualSettings.levels.levelColors[0]),
@@ -169,13 +403,37 @@ export function getVisualSettings(dataView?: powerbi.DataView): VisualSettings {
     toColor(levels.level6Color, DefaultVisualSettings.levels.levelColors[5])
   ];
 
+  const blockZoom = Math.max(0, toNumber(layout.blockZoom, DefaultLayoutSettings.blockZoom));
+  const silhouetteZoom = Math.max(0, toNumber(layout.silhouetteZoom, DefaultLayoutSettings.silhouetteZoom));
+
   return {
     layout: {
-      orientation: (layout.orientation as Orientation) ?? DefaultLayoutSettings.orientation,
+      orientation: toEnum(layout.orientation, ["TD", "BU", "LR", "RL", "radial"], DefaultLayoutSettings.orientation),
       levelSpacing: toNumber(layout.levelSpacing, DefaultLayoutSettings.levelSpacing),
       siblingSpacing: toNumber(layout.siblingSpacing, DefaultLayoutSettings.siblingSpacing),
       cardWidth: toNumber(layout.cardWidth, DefaultLayoutSettings.cardWidth),
-      cardHeight: toNumber(layout.cardHeight, DefaultLayoutSettings.cardHeight)
+      cardHeight: toNumber(layout.cardHeight, DefaultLayoutSettings.cardHeight),
+      autoSize: toBoolean(layout.autoSize, DefaultLayoutSettings.autoSize),
+      minCardWidth: Math.max(20, toNumber(layout.minCardWidth, DefaultLayoutSettings.minCardWidth)),
+      maxCardWidth: Math.max(20, toNumber(layout.maxCardWidth, DefaultLayoutSettings.maxCardWidth)),
+      minCardHeight: Math.max(20, toNumber(layout.minCardHeight, DefaultLayoutSettings.minCardHeight)),
+      maxCardHeight: Math.max(20, toNumber(layout.maxCardHeight, DefaultLayoutSettings.maxCardHeight)),
+      allowMultipleParents: toBoolean(layout.allowMultipleParents, DefaultLayoutSettings.allowMultipleParents),
+      rotateLabels: toBoolean(layout.rotateLabels, DefaultLayoutSettings.rotateLabels),
+      compactLeaves: toBoolean(layout.compactLeaves, DefaultLayoutSettings.compactLeaves),
+      compactColumns: Math.min(2, Math.max(1, Math.round(toNumber(layout.compactColumns, DefaultLayoutSettings.compactColumns)))),
+      blockZoom,
+      silhouetteZoom: blockZoom > 0 ? Math.min(silhouetteZoom, blockZoom) : silhouetteZoom,
+      detailZoom: Math.max(0, toNumber(layout.detailZoom, DefaultLayoutSettings.detailZoom))
+    },
+    sort: {
+      by: toEnum(sort.by, ["none", "label", "value", "total", "count", "field"], DefaultVisualSettings.sort.by),
+      direction: toEnum(sort.direction, ["ascending", "descending"], DefaultVisualSettings.sort.direction)
+    },
+    animation: {
+      show: toBoolean(animation.show, DefaultVisualSettings.animation.show),
+      duration: Math.min(5000, Math.max(0, toNumber(animation.duration, DefaultVisualSettings.animation.duration))),
+      easing: toEnum(animation.easing, ["easeInOut", "easeOut", "linear"], DefaultVisualSettings.animation.easing)
     },
     appearance: {
       useBackground: toBoolean(appearance.useBackground, DefaultVisualSettings.appearance.useBackground),
@@ -184,15 +442,25 @@ export function getVisualSettings(dataView?: powerbi.DataView): VisualSettings {
     lines: {
       lineColor: toColor(lines.lineColor, DefaultVisualSettings.lines.lineColor),
       activeColor: toColor(lines.activeColor, DefaultVisualSettings.lines.activeColor),
+      crossLinkColor: toColor(lines.crossLinkColor, DefaultVisualSettings.lines.crossLinkColor),
       lineWidth: toNumber(lines.lineWidth, DefaultVisualSettings.lines.lineWidth),
       lineStyle: toEnum(lines.lineStyle, ["solid", "dashed"], DefaultVisualSettings.lines.lineStyle),
+      linkShape: toEnum(
+        lines.linkShape,
+        ["elbow", "rounded", "curved", "straight"],
+        DefaultVisualSettings.lines.linkShape
+      ),
+      linkCornerRadius: Math.max(0, toNumber(lines.linkCornerRadius, DefaultVisualSettings.lines.linkCornerRadius)),
       showArrows: toBoolean(lines.showArrows, DefaultVisualSettings.lines.showArrows),
       tipStyle: toEnum(
         lines.tipStyle,
         ["arrow", "none", "square", "diamond", "circle"],
         DefaultVisualSettings.lines.tipStyle
       ),
-      tipSize: toNumber(lines.tipSize, DefaultVisualSettings.lines.tipSize)
+      tipSize: toNumber(lines.tipSize, DefaultVisualSettings.lines.tipSize),
+      linkMinWidth: Math.max(0, toNumber(lines.linkMinWidth, DefaultVisualSettings.lines.linkMinWidth)),
+      linkMaxWidth: Math.max(0, toNumber(lines.linkMaxWidth, DefaultVisualSettings.lines.linkMaxWidth)),
+      showLinkLabels: toBoolean(lines.showLinkLabels, DefaultVisualSettings.lines.showLinkLabels)
     },
     nodes: {
       fillColor: toColor(nodes.fillColor, DefaultVisualSettings.nodes.fillColor),
@@ -211,7 +479,43 @@ export function getVisualSettings(dataView?: powerbi.DataView): VisualSettings {
         nodes.titleFontStyle,
         ["normal", "bold", "italic", "boldItalic"],
         DefaultVisualSettings.nodes.titleFontStyle
-      )
+      ),
+      displayUnits: toNumber(nodes.displayUnits, DefaultVisualSettings.nodes.displayUnits),
+      decimalPlaces: toDecimalPlaces(nodes.decimalPlaces, DefaultVisualSettings.nodes.decimalPlaces)
+    },
+    image: {
+      show: toBoolean(image.show, DefaultVisualSettings.image.show),
+      shape: toEnum(image.shape, ["circle", "square"], DefaultVisualSettings.image.shape),
+      size: toNumber(image.size, DefaultVisualSettings.image.size),
+      position: toEnum(image.position, ["left", "top"], DefaultVisualSettings.image.position),
+      showInitials: toBoolean(image.showInitials, DefaultVisualSettings.image.showInitials),
+      initialsBackground: toColor(image.initialsBackground, DefaultVisualSettings.image.initialsBackground),
+      initialsColor: toColor(image.initialsColor, DefaultVisualSettings.image.initialsColor)
+    },
+    sparkline: {
+      chartType: toEnum(sparkline.chartType, ["line", "area"], DefaultVisualSettings.sparkline.chartType),
+      scale: toEnum(sparkline.scale, ["shared", "perNode"], DefaultVisualSettings.sparkline.scale),
+      lineColor: toColor(sparkline.lineColor, DefaultVisualSettings.sparkline.lineColor),
+      showMinMarker: toBoolean(sparkline.showMinMarker, DefaultVisualSettings.sparkline.showMinMarker),
+      showMaxMarker: toBoolean(sparkline.showMaxMarker, DefaultVisualSettings.sparkline.showMaxMarker),
+      showLastMarker: toBoolean(sparkline.showLastMarker, DefaultVisualSettings.sparkline.showLastMarker)
+    },
+    rollup: {
+      mode: toEnum(
+        rollup.mode,
+        ["none", "sum", "average", "min", "max", "descendants", "leaves"],
+        DefaultVisualSettings.rollup.mode
+      ),
+      showOwnValue: toBoolean(rollup.showOwnValue, DefaultVisualSettings.rollup.showOwnValue)
+    },
+    kpi: {
+      show: toBoolean(kpi.show, DefaultVisualSettings.kpi.show),
+      direction: toEnum(kpi.direction, ["higherIsBetter", "lowerIsBetter"], DefaultVisualSettings.kpi.direction),
+      goodThreshold: toNumber(kpi.goodThreshold, DefaultVisualSettings.kpi.goodThreshold),
+      badThreshold: toNumber(kpi.badThreshold, DefaultVisualSettings.kpi.badThreshold),
+      goodColor: toColor(kpi.goodColor, DefaultVisualSettings.kpi.goodColor),
+      neutralColor: toColor(kpi.neutralColor, DefaultVisualSettings.kpi.neutralColor),
+      badColor: toColor(kpi.badColor, DefaultVisualSettings.kpi.badColor)
     },
     levels: {
       enable: toBoolean(levels.enableLevelColors, DefaultVisualSettings.levels.enable),
@@ -235,25 +539,81 @@ export function getVisualSettings(dataView?: powerbi.DataView): VisualSettings {
         controls.showCollapseExpand,
         DefaultVisualSettings.controls.showCollapseExpand
       ),
-      defaultView: toEnum(controls.defaultView, ["tree", "table"], DefaultVisualSettings.controls.defaultView),
+      defaultView: toEnum(controls.defaultView, ["tree", "table", "treemap", "icicle"], DefaultVisualSettings.controls.defaultView),
       doubleClickZoomPercent: toNumber(
         controls.doubleClickZoomPercent,
         DefaultVisualSettings.controls.doubleClickZoomPercent
-      )
+      ),
+      expandLevel: Math.max(0, Math.round(toNumber(controls.expandLevel, DefaultVisualSettings.controls.expandLevel))),
+      showMinimapToggle: toBoolean(controls.showMinimapToggle, DefaultVisualSettings.controls.showMinimapToggle)
+    },
+    minimap: {
+      show: toBoolean(minimap.show, DefaultVisualSettings.minimap.show),
+      position: toEnum(
+        minimap.position,
+        ["bottomRight", "bottomLeft", "topRight", "topLeft"],
+        DefaultVisualSettings.minimap.position
+      ),
+      size: Math.min(400, Math.max(60, toNumber(minimap.size, DefaultVisualSettings.minimap.size)))
     },
     table: {
       showHeader: toBoolean(table.showHeader, DefaultVisualSettings.table.showHeader),
       rowHeight: toNumber(table.rowHeight, DefaultVisualSettings.table.rowHeight),
-      zebra: toBoolean(table.zebra, DefaultVisualSettings.table.zebra)
+      zebra: toBoolean(table.zebra, DefaultVisualSettings.table.zebra),
+      displayUnits: toNumber(table.displayUnits, DefaultVisualSettings.table.displayUnits),
+      decimalPlaces: toDecimalPlaces(table.decimalPlaces, DefaultVisualSettings.table.decimalPlaces)
+    },
+    partition: {
+      sizeBy: toEnum(partition.sizeBy, ["value", "count"], DefaultVisualSettings.partition.sizeBy),
+      showValues: toBoolean(partition.showValues, DefaultVisualSettings.partition.showValues),
+      padding: Math.min(12, Math.max(0, toNumber(partition.padding, DefaultVisualSettings.partition.padding)))
+    },
+    diagnostics: {
+      showPanel: toBoolean(diagnostics.showPanel, DefaultVisualSettings.diagnostics.showPanel),
+      unresolvedLabel: toText(diagnostics.unresolvedLabel, DefaultVisualSettings.diagnostics.unresolvedLabel),
+      groupOrphans: toBoolean(diagnostics.groupOrphans, DefaultVisualSettings.diagnostics.groupOrphans),
+      benchmark: toBoolean(diagnostics.benchmark, DefaultVisualSettings.diagnostics.benchmark)
+    },
+    input: {
+      pathDelimiter: toText(input.pathDelimiter, DefaultVisualSettings.input.pathDelimiter),
+      maxRows: Math.max(1, Math.round(toNumber(input.maxRows, DefaultVisualSettings.input.maxRows)))
     }
   };
 }
 
+/** Per-measure settings are stored on the column metadata (selector = measure queryName). */
+export function getMeasureSettings(column?: powerbi.DataViewMetadataColumn): MeasureSettings {
+  const measures = (column?.objects?.measures ?? {}) as any;
+  return {
+    showOnCard: toBoolean(measures.showOnCard, DefaultMeasureSettings.showOnCard)
+  };
+}
+
+/** Collapsed node ids saved with the report in the hidden "expansion" object; null when none is saved. */
+export function getSavedCollapsedIds(dataView?: powerbi.DataView): string[] | null {
+  const raw = (dataView?.metadata?.objects as any)?.expansion?.collapsed;
+  if (typeof raw !== "string" || raw === "") return null;
+  try {
+    const ids = JSON.parse(raw);
+    return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : null;
+  } catch {
+    return null;
+  }
+}
+
 function toNumber(v: any, fallback: number): number {
   const n = Number(v);
   return Number.isFinite(n) ? n : fallback;
 }
 
+/** Blank means "use the model format"; otherwise clamp to 0..9 digits. */
+function toDecimalPlaces(v: any, fallback: number | null): number | null {
+  if (v === null || v === undefined || v === "") return fallback;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.max(0, Math.min(9, Math.round(n)));
+}
+
 function toBoolean(v: any, fallback: boolean): boolean {
   if (typeof v === "boolean") return v;
   return fallback;
@@ -12,11 +12,34 @@ import DataViewCategorical = powerbi.DataViewCategorical;
 import ISelectionId = powerbi.visuals.ISelectionId;
 import ISelectionManager = powerbi.extensibility.ISelectionManager;
 
-import { tree, stratify, HierarchyNode } from "d3-hierarchy";
-import { getVisualSettings, VisualSettings, ViewMode } from "./settings";
+import {
+  tree,
+  stratify,
+  hierarchy,
+  treemap,
+  partition,
+  HierarchyNode,
+  HierarchyPointNode,
+  HierarchyRectangularNode
+} from "d3-hierarchy";
+import {
+  getVisualSettings,
+  getMeasureSettings,
+  getSavedCollapsedIds,
+  VisualSettings,
+  ViewMode,
+  RollupMode,
+  Easing,
+  LineTipStyle,
+  LinkShape,
+  SortBy
+} from "./settings";
 import { FormattingSettingsService } from "powerbi-visuals-utils-formattingmodel";
+import { valueFormatter } from "powerbi-visuals-utils-formattingutils";
 import { VisualFormattingSettingsModel } from "./formattingSettings";
 
+import IValueFormatter = valueFormatter.IValueFormatter;
+
 /** Base styling (uses host palette for accent where possible) */
 const UI = {
   bg: "#ffffff",
@@ -35,7 +58,10 @@ const UI = {
 
   toggleFill: "#ffffff",
   toggleStroke: "#d1d5db",
-  toggleText: "#f08b2e"
+  toggleText: "#f08b2e",
+
+  sparkMin: "#dc2626",
+  sparkMax: "#16a34a"
 };
 
 const FONT = {
@@ -44,31 +70,261 @@ const FONT = {
   toggle: "700 10px Segoe UI"
 };
 
+/** Height of the label strip along the top of treemap parents */
+const PARTITION_HEADER_HEIGHT = 18;
+
+/** Progress curves for layout transitions (t and the result run 0 → 1) */
+const EASINGS: Record<Easing, (t: number) => number> = {
+  linear: (t) => t,
+  easeOut: (t) => 1 - Math.pow(1 - t, 3),
+  easeInOut: (t) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2)
+};
+
+/** Vertical space taken by one measure row on a card */
+const VALUE_ROW_HEIGHT = 12;
+
+/** Height of the mini chart drawn on cards when a Period field is bound */
+const SPARKLINE_HEIGHT = 18;
+
+/**
+ * Joins path segments into stable node IDs for level-column and path input. A control character
+ * cannot occur in labels, so "Sales / Marketing" stays distinct from the path Sales → Marketing.
+ */
+const PATH_ID_SEPARATOR = "\u001f";
+
+/** Shown between path segments wherever an ID or a path is displayed */
+const PATH_DISPLAY_SEPARATOR = " / ";
+
+/** Synthetic group that collects duplicate, cyclic and (optionally) orphaned rows */
+const UNRESOLVED_ID = "__unresolved__";
+
+/** Parent added when the visible hierarchy has several roots; it has no data identity */
+const SYNTHETIC_ROOT_ID = "__root__";
+
+/** Max entries listed per issue kind in the diagnostics panel */
+const DIAGNOSTICS_LIST_LIMIT = 20;
+
+/** World-space cell size of the hit-test grid; a few cards per cell at typical sizes */
+const NODE_INDEX_CELL = 256;
+
+/** Subtrees smaller than this on screen (px, longer side) become one silhouette */
+const SILHOUETTE_SCREEN_SIZE = 96;
+
+/** Inner padding and distance from the canvas edge of the minimap, px */
+const MINIMAP_PAD = 6;
+const MINIMAP_MARGIN = 8;
+
+/** Max extra lines drawn under a card at detail zoom */
+const DETAIL_LINE_LIMIT = 3;
+
+/** Frames drawn per mode by the diagnostics render benchmark */
+const BENCHMARK_FRAMES = 30;
+
+/** Uniform grid over world-space boxes; queries return candidate indices in insertion order */
+class GridIndex {
+  private cells = new Map<string, number[]>();
+
+  constructor(private readonly cellSize: number) {}
+
+  public clear(): void {
+    this.cells.clear();
+  }
+
+  public insert(index: number, x0: number, y0: number, x1: number, y1: number): void {
+    const size = this.cellSize;
+    for (let cx = Math.floor(x0 / size); cx <= Math.floor(x1 / size); cx++) {
+      for (let cy = Math.floor(y0 / size); cy <= Math.floor(y1 / size); cy++) {
+        const key = `${cx},${cy}`;
+        const cell = this.cells.get(key);
+        if (cell) cell.push(index);
+        else this.cells.set(key, [index]);
+      }
+    }
+  }
+
+  public query(x: number, y: number): number[] {
+    return this.cells.get(`${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`) ?? [];
+  }
+}
+
+type CellValue = number | string | null;
+
+/** Per-column formatters: cards and table apply their own display units / decimals, tooltips use the model format */
+type ValueFormatters = {
+  card: IValueFormatter;
+  table: IValueFormatter;
+  tooltip: IValueFormatter;
+};
+
+type PeriodKey = number | string;
+
+type SparkPoint = {
+  key: PeriodKey;
+  value: number;
+};
+
+type MeasureColumn = {
+  displayName: string;
+  queryName: string;
+  showOnCard: boolean;
+  formatters: ValueFormatters;
+};
+
+/** Per-node colours from data-bound (fx) rules on the Nodes card */
+type NodeColors = {
+  fill?: string;
+  stroke?: string;
+  title?: string;
+};
+
 type NodeRow = {
   id: string;
   parentId: string | null;
+  /** Extra parents when "Allow multiple parents" is on; drawn as cross-links */
+  secondaryParentIds?: string[];
   label: string;
-  value?: number | string | null;
+  values?: CellValue[];
   sparkline?: number | string | null;
+  series?: SparkPoint[] | null;
   tooltip?: number | string | null;
+  target?: CellValue;
+  /** Link value measure: weight of the link from the parent to this row */
+  linkValue?: CellValue;
   dropdown?: string | null;
+  imageUrl?: string | null;
+  url?: string | null;
+  colors?: NodeColors | null;
+  /** Sort by measure: orders this row among its siblings */
+  sortKey?: CellValue;
   selectionId: ISelectionId;
 };
 
+type LinkPoint = { x: number; y: number };
+
+/** Semantic zoom level, lowest first; thresholds come from the Layout card */
+type DetailLevel = "silhouette" | "block" | "full" | "detail";
+
+/** Minimap box on screen (CSS px) and its world-to-minimap mapping: mx = ox + wx * k */
+type MinimapFrame = { x: number; y: number; w: number; h: number; k: number; ox: number; oy: number };
+
+/** World bounds of a node's card and all its laid-out descendants' cards */
+type SubtreeBounds = { x0: number; y0: number; x1: number; y1: number; count: number };
+
+type NodeFrame = { x: number; y: number; rotation: number; polar?: { angle: number; radius: number } };
+
+type ViewTransform = { tx: number; ty: number; scale: number };
+
+/** The tree as drawn just before a layout change: where the next transition starts */
+type LayoutSnapshot = {
+  frames: Map<string, NodeFrame>;
+  nodes: LayoutNode[];
+  links: Array<{ source: LayoutNode; target: LayoutNode }>;
+  view: ViewTransform;
+};
+
+type NodeTween = { node: LayoutNode; from: NodeFrame; to: NodeFrame; fromPresence: number; toPresence: number };
+
+type Transition = {
+  start: number;
+  duration: number;
+  ease: (t: number) => number;
+  tweens: NodeTween[];
+  /** Copies of removed nodes, drawn until they have folded away */
+  ghosts: Set<LayoutNode>;
+  from: ViewTransform;
+  to: ViewTransform;
+  frameId: number;
+};
+
+/** Placement unit for the compact layout: a real node, or a stack of leaf siblings (plus spacer levels) */
+type CompactItem = {
+  node?: HierarchyNode<NodeRow>;
+  stack?: HierarchyNode<NodeRow>[];
+  width: number;
+  children: CompactItem[];
+};
+
 type LayoutNode = {
   id: string;
   label: string;
-  value?: number | string | null;
+  values?: CellValue[];
+  rollup?: Rollup | null;
   sparkline?: number | string | null;
+  series?: SparkPoint[] | null;
   tooltip?: number | string | null;
+  target?: CellValue;
+  linkValue?: CellValue;
+  imageUrl?: string | null;
+  url?: string | null;
+  dropdown?: string | null;
+  colors?: NodeColors | null;
+  /** Side rail of a compact leaf stack: rail x and the top of the stack */
+  rail?: { x: number; top: number };
+  /** Radial orientation: angle (0 = up, clockwise) and ring radius before projection */
+  polar?: { angle: number; radius: number };
+  /** Card rotation in radians (radial labels) */
+  rotation?: number;
   x: number;
   y: number;
+  /** Card size: the configured size, or measured when auto-size is on */
+  w: number;
+  h: number;
+  titleLines: number;
+  /** 0–1 while the card grows out of or folds back into its parent during a transition */
+  presence?: number;
   selectionId: ISelectionId;
   depth: number;
   parent?: LayoutNode;
   children?: LayoutNode[];
 };
 
+/** A value row on a card: a bound measure, or the rollup count (measureIndex null) */
+type CardRow = {
+  label: string;
+  measureIndex: number | null;
+  /** Target vs actual variance row (Target bound) */
+  kpi?: boolean;
+};
+
+type KpiStatus = "good" | "neutral" | "bad";
+
+/** Actual is the first Values measure (own value, else its rollup) */
+type Kpi = {
+  actual: number;
+  target: number;
+  variance: number;
+  variancePercent: number | null;
+  status: KpiStatus;
+};
+
+/** Subtree aggregates over a node's descendants; values align with measureColumns */
+type Rollup = {
+  values: CellValue[];
+  /** Target measure aggregated like values, so a rolled-up actual meets a matching target */
+  target: CellValue;
+  count: number;
+};
+
+type HierarchyIssues = {
+  duplicates: string[];
+  cycles: string[][];
+  orphans: Array<{ parentId: string; childIds: string[] }>;
+};
+
+/** One rectangle of the treemap / icicle views, in screen coordinates */
+type PartitionCell = {
+  node: LayoutNode;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  value: number;
+  color: string;
+  hasChildren: boolean;
+  /** Set on the zoomed-into node: where clicking it goes (null = the whole hierarchy) */
+  zoomOutId?: string | null;
+};
+
 type Hit = {
   node: LayoutNode;
   worldX: number;
@@ -93,10 +349,14 @@ export class Visual implements IVisual {
 
   private viewMode: ViewMode = "tree";
   private userSetView = false;
+  private minimapVisible = false;
+  private userSetMinimap = false;
 
   private toolbar: HTMLDivElement;
   private viewGroup: HTMLDivElement;
   private zoomGroup: HTMLDivElement;
+  private minimapGroup: HTMLDivElement;
+  private minimapButton: HTMLButtonElement;
   private collapseGroup: HTMLDivElement;
   private searchGroup: HTMLDivElement;
   private searchInput: HTMLInputElement;
@@ -107,8 +367,13 @@ export class Visual implements IVisual {
   private zoomLabel: HTMLInputElement;
   private treeButton: HTMLButtonElement;
   private tableButton: HTMLButtonElement;
+  private treemapButton: HTMLButtonElement;
+  private icicleButton: HTMLButtonElement;
   private collapseAllButton: HTMLButtonElement;
   private expandAllButton: HTMLButtonElement;
+  private loadGroup: HTMLDivElement;
+  private loadLabel: HTMLSpanElement;
+  private stopLoadButton: HTMLButtonElement;
 
   private tableContainer: HTMLDivElement;
   private tableEl: HTMLTableElement;
@@ -117,6 +382,9 @@ export class Visual implements IVisual {
   private tableRows: LayoutNode[] = [];
 
   private landingPage: HTMLDivElement;
+  private diagnosticsPanel: HTMLDivElement;
+  private diagnosticsDismissed = false;
+  private hierarchyIssues: HierarchyIssues = { duplicates: [], cycles: [], orphans: [] };
   private focusedNodeId: string | null = null;
   private focusedIndex = 0;
 
@@ -125,13 +393,38 @@ export class Visual implements IVisual {
   private ty = 20;
   private scale = 1;
 
+  // treemap / icicle cells and the subtree they are zoomed into
+  private partitionCells: PartitionCell[] = [];
+  private partitionZoomId: string | null = null;
+
+  // running layout transition (null when the tree is at rest)
+  private transition: Transition | null = null;
+
   // layout cache
   private nodes: LayoutNode[] = [];
   private links: Array<{ source: LayoutNode; target: LayoutNode }> = [];
+  private crossLinks: Array<{ source: LayoutNode; target: LayoutNode }> = [];
 
   // hit testing rects (world coords)
-  private nodeRects: Array<{ node: LayoutNode; x: number; y: number; w: number; h: number }> = [];
+  private nodeRects: Array<{ node: LayoutNode; x: number; y: number; w: number; h: number; angle: number }> = [];
   private toggleRects: Array<{ nodeId: string; x: number; y: number; w: number; h: number }> = [];
+  private linkRects: Array<{ nodeId: string; url: string; x: number; y: number; w: number; h: number }> = [];
+
+  // hit-test grid over nodeRects; rebuilt with every tree draw
+  private nodeIndex = new GridIndex(NODE_INDEX_CELL);
+  // off-screen cards and links are skipped; only the benchmark turns this off
+  private cullingEnabled = true;
+  // pending coalesced redraw (0 when none)
+  private renderFrameId = 0;
+  // where the minimap was last drawn; null when hidden
+  private minimapFrame: MinimapFrame | null = null;
+  private benchmarkResult: string[] | null = null;
+  // subtree bounds for silhouettes; valid while the layout (nodes array) is unchanged
+  private subtreeCache: {
+    nodes: LayoutNode[];
+    bounds: Map<string, SubtreeBounds>;
+    children: Map<string, LayoutNode[]>;
+  } | null = null;
 
   // last known viewport (CSS pixels)
   private lastViewportW = 0;
@@ -151,14 +444,37 @@ export class Visual implements IVisual {
   private childrenMap = new Map<string, string[]>();
   private fullChildrenMap = new Map<string, string[]>();
   private collapsedIds = new Set<string>();
-  private valueDisplayName = "Value";
+  // collapse state last taken from the report: the Expand to level default (null before the first
+  // data) and the saved ids as JSON; a change to either re-applies it
+  private expansionLevel: number | null = null;
+  private expansionSaved: string | null = null;
+  // our saves (JSON, "" for a cleared state) whose updates have not come back yet, oldest first
+  private pendingExpansionSaves: string[] = [];
+  private rollups = new Map<string, Rollup>();
+  private measureColumns: MeasureColumn[] = [];
   private sparklineDisplayName = "Sparkline";
+  private sparklineFormatters: ValueFormatters | null = null;
+  private tooltipFormatters: ValueFormatters | null = null;
+  private targetColumn: { displayName: string; formatters: ValueFormatters } | null = null;
+  private linkValueColumn: { displayName: string; formatters: ValueFormatters } | null = null;
   private tooltipDisplayName = "Tooltip";
   private labelDisplayName = "Name";
   private dropdownDisplayName = "Dropdown";
+  private urlDisplayName = "URL";
   private hasDropdownField = false;
+  private hasImageField = false;
+  private imageCache = new Map<string, { img: HTMLImageElement; state: "loading" | "ready" | "error" }>();
   private sparklineMin: number | null = null;
   private sparklineMax: number | null = null;
+  private hasSparklineSeries = false;
+  private hasSortByField = false;
+
+  // segmented loading
+  private loadedRowCount = 0;
+  private loadingStopped = false;
+  /** Row limit warning last raised with the host, so it is raised once per change */
+  private loadWarning: string | null = null;
+  private pendingUpdate: VisualUpdateOptions | null = null;
 
   // accessibility / host behaviour
   private allowInteractions = true;
@@ -193,6 +509,7 @@ export class Visual implements IVisual {
     this.createToolbar();
     this.createTable();
     this.createLandingPage();
+    this.createDiagnosticsPanel();
     this.wireInteractions();
   }
 
@@ -225,24 +542,56 @@ export class Visual implements IVisual {
     if (!this.userSetView || !this.settings.controls.showViewToggle) {
       this.viewMode = this.settings.controls.defaultView;
     }
+    if (!this.userSetMinimap || !this.settings.controls.showMinimapToggle) {
+      this.minimapVisible = this.settings.minimap.show;
+    }
     this.applyToolbarSettings();
 
+    // Segmented loading: keep requesting windows until the data is complete, the row
+    // limit is reached or the user stops; the tree is laid out once with the full set.
+    const loadedRows = dv?.categorical?.categories?.[0]?.values?.length ?? 0;
+    const hasMoreSegments = Boolean(dv?.metadata?.segment);
+    if (!hasMoreSegments || loadedRows < this.loadedRowCount) this.loadingStopped = false;
+    this.loadedRowCount = loadedRows;
+
+    const canFetchMore = hasMoreSegments && !this.loadingStopped && loadedRows < this.settings.input.maxRows;
+    if (canFetchMore && this.host.fetchMoreData?.(true)) {
+      // the formatting model is rebuilt every update, so the Measures card is filled here as well
+      this.formattingSettingsModel.populateMeasures(this.getMeasureEntries(dv?.categorical?.values));
+      this.pendingUpdate = options;
+      this.showLandingPage(false);
+      this.setLoadStatus("loading", loadedRows);
+      eventService?.renderingFinished(options);
+      return;
+    }
+    this.pendingUpdate = null;
+    const maxRows = this.settings.input.maxRows;
+    this.setLoadStatus(hasMoreSegments || loadedRows > maxRows ? "truncated" : "idle", Math.min(loadedRows, maxRows));
+
     try {
       // parse data
-      const model = this.parseDataView(dv);
-      if (!model || model.length === 0) {
+      const parsed = this.parseDataView(dv);
+      if (!parsed || parsed.length === 0) {
+        this.finishTransition();
         this.nodes = [];
         this.links = [];
+        this.crossLinks = [];
         this.tableRows = [];
         this.allRows = [];
         this.childrenMap.clear();
+        this.pruneImageCache();
         this.sparklineMin = null;
         this.sparklineMax = null;
+        this.hasSparklineSeries = false;
         this.hasDropdownField = false;
+        this.hasImageField = false;
+        this.hasSortByField = false;
         this.dropdownDisplayName = this.localize("Toolbar.FilterDropdown", "Dropdown filter");
+        this.hierarchyIssues = { duplicates: [], cycles: [], orphans: [] };
         this.updateFilterOptions();
         this.applyToolbarSettings();
         this.clearMessage();
+        this.renderDiagnostics();
         this.showLandingPage(true);
         eventService?.renderingFinished(options);
         return;
@@ -251,6 +600,10 @@ export class Visual implements IVisual {
       this.clearMessage();
       this.showLandingPage(false);
 
+      // duplicates / cycles / orphans are reported and parked under the Unresolved group
+      const model = this.resolveHierarchy(parsed);
+      this.renderDiagnostics();
+
       const isFiltered = dv?.metadata?.isDataFilterApplied === true;
       const hasCache = this.fullRows.length > 0;
       const reduced = hasCache && model.length < this.fullRows.length;
@@ -265,11 +618,19 @@ export class Visual implements IVisual {
       this.allRows = canUseCache ? this.expandRowsForFilter(model, this.fullRows) : model;
       this.childrenMap = this.fullChildrenMap.size ? this.fullChildrenMap : this.buildChildrenMap(this.allRows);
       this.setSparklineRange(this.allRows);
+      this.pruneImageCache();
       this.updateFilterOptions();
       this.applyToolbarSettings();
 
+      // the update that returns our own save still re-lays out (it may carry coalesced data or
+      // format changes), but keeps the view where the fold left it instead of refitting and animating
+      const echo = this.applyExpansionState(getSavedCollapsedIds(dv));
+      let before: LayoutSnapshot | null = null;
+      if (echo) this.finishTransition();
+      else before = this.snapshotLayout();
+
       // compute layout based on collapsed state
-      const ok = this.computeLayoutFromState();
+      const ok = this.computeLayoutFromState(!echo);
       if (!ok) {
         eventService?.renderingFailed(options, this.localize(
           "Message.InvalidHierarchy",
@@ -279,13 +640,14 @@ export class Visual implements IVisual {
       }
 
       this.ensureFocus();
-
-      if (dv?.metadata?.segment) {
-        this.host.fetchMoreData?.();
-      }
+      this.beginTransition(before);
 
       // render
       this.renderView();
+      if (!this.settings.diagnostics.benchmark && this.benchmarkResult) {
+        this.benchmarkResult = null;
+        this.renderDiagnostics();
+      }
       eventService?.renderingFinished(options);
     } catch (err) {
       const reason = err instanceof Error ? err.message : undefined;
@@ -313,67 +675,473 @@ export class Visual implements IVisual {
   private parseDataView(dv?: DataView): NodeRow[] | null {
     const categorical = dv?.categorical as DataViewCategorical | undefined;
     const cats = categorical?.categories;
-    if (!cats || cats.length < 2) return null;
+    if (!cats || cats.length === 0) return null;
 
     const nodeIdCat = cats.find(c => c.source.roles?.["hierarchy"]);
     const parentIdCat = cats.find(c => c.source.roles?.["parent"]);
+    const levelCats = cats.filter(c => c.source.roles?.["levels"]);
+    const pathCat = cats.find(c => c.source.roles?.["path"]);
     const fieldCats = cats.filter(c => c.source.roles?.["fields"]);
     const dropdownCat = cats.find(c => c.source.roles?.["dropdown"]);
-    if (!nodeIdCat || !parentIdCat) return null;
-
+    const periodCat = cats.find(c => c.source.roles?.["period"]);
+    const imageCat = cats.find(c => c.source.roles?.["image"]);
+    const urlCat = cats.find(c => c.source.roles?.["url"]);
+    const isParentChild = Boolean(nodeIdCat && parentIdCat);
+    if (!isParentChild && levelCats.length === 0 && !pathCat) return null;
+
+    const idSource = isParentChild
+      ? nodeIdCat!.source
+      : (levelCats.length > 0 ? levelCats[levelCats.length - 1].source : pathCat!.source);
     this.labelDisplayName = fieldCats.length > 0
       ? this.localize("Table.Header.Fields", "Fields")
-      : (nodeIdCat.source?.displayName ?? this.localize("Table.Header.Fields", "Fields"));
+      : (idSource?.displayName ?? this.localize("Table.Header.Fields", "Fields"));
     this.dropdownDisplayName = dropdownCat?.source?.displayName ?? this.localize("Toolbar.FilterDropdown", "Dropdown filter");
     this.hasDropdownField = Boolean(dropdownCat);
+    this.hasImageField = Boolean(imageCat);
+    this.urlDisplayName = urlCat?.source?.displayName ?? "URL";
 
     const values = categorical?.values;
     const sparkCol = values?.find(v => v.source.roles?.["sparkline"]);
-    const valuesCol = values?.find(v => v.source.roles?.["values"]);
+    const valueCols = values?.filter(v => v.source.roles?.["values"]) ?? [];
     const tooltipCol = values?.find(v => v.source.roles?.["tooltip"]);
+    const targetCol = values?.find(v => v.source.roles?.["target"]);
+    const linkValueCol = values?.find(v => v.source.roles?.["linkValue"]);
+    const sortByCol = values?.find(v => v.source.roles?.["sortBy"]);
 
     this.sparklineDisplayName = sparkCol?.source?.displayName ?? "Sparkline";
-    this.valueDisplayName = valuesCol?.source?.displayName ?? "Value";
+    this.measureColumns = this.getMeasureEntries(values).map((m, k) => ({
+      ...m,
+      formatters: this.createFormatters(valueCols[k])
+    }));
+    this.sparklineFormatters = sparkCol ? this.createFormatters(sparkCol) : null;
+    this.tooltipFormatters = tooltipCol ? this.createFormatters(tooltipCol) : null;
+    this.targetColumn = targetCol
+      ? {
+        displayName: targetCol.source?.displayName ?? "Target",
+        formatters: this.createFormatters(targetCol)
+      }
+      : null;
+    this.linkValueColumn = linkValueCol
+      ? {
+        displayName: linkValueCol.source?.displayName ?? "Link value",
+        formatters: this.createFormatters(linkValueCol)
+      }
+      : null;
+    this.formattingSettingsModel.populateMeasures(this.measureColumns);
     this.tooltipDisplayName = tooltipCol?.source?.displayName ?? "Tooltip";
+    this.hasSparklineSeries = Boolean(periodCat && sparkCol);
+    this.hasSortByField = Boolean(sortByCol);
 
     const rows: NodeRow[] = [];
-    const len = nodeIdCat.values.length;
+    // the last segment can overshoot Max rows; rows past the limit are not parsed
+    const len = Math.min(
+      (isParentChild ? nodeIdCat! : (levelCats[0] ?? pathCat!)).values.length,
+      this.settings.input.maxRows
+    );
+
+    // Level-column / path input: intermediate nodes are created once per path prefix,
+    // a data row's own node is its full path (ragged rows simply have fewer segments).
+    const pathNodes = new Map<string, NodeRow>();
+    const leafIds = new Set<string>();
+    const delimiter = this.settings.input.pathDelimiter;
+    const toText = (v: powerbi.PrimitiveValue) => (v === null || v === undefined ? "" : String(v).trim());
+
+    const getSegments = (i: number): Array<{ text: string; cat?: powerbi.DataViewCategoryColumn }> => {
+      if (levelCats.length > 0) {
+        return levelCats
+          .map(cat => ({ text: toText(cat.values[i]), cat }))
+          .filter(seg => seg.text);
+      }
+      return toText(pathCat!.values[i])
+        .split(delimiter)
+        .map(text => ({ text: text.trim() }))
+        .filter(seg => seg.text);
+    };
+
+    const buildPathSelection = (segs: Array<{ cat?: powerbi.DataViewCategoryColumn }>, i: number): ISelectionId => {
+      const builder = this.host.createSelectionIdBuilder();
+      if (levelCats.length > 0) {
+        for (const seg of segs) if (seg.cat) builder.withCategory(seg.cat, i);
+      } else if (pathCat && segs.length > 0) {
+        builder.withCategory(pathCat, i);
+      }
+      return builder.createSelectionId();
+    };
+
+    const identify = (i: number): { id: string; parentId: string | null; label: string; selectionId: () => ISelectionId } | null => {
+      if (isParentChild) {
+        const id = toText(nodeIdCat!.values[i]);
+        if (!id) return null;
+        const parentId = toText(parentIdCat!.values[i]) || null;
+        return {
+          id,
+          parentId,
+          label: id,
+          selectionId: () => this.host.createSelectionIdBuilder().withCategory(nodeIdCat!, i).createSelectionId()
+        };
+      }
+
+      const segs = getSegments(i);
+      if (segs.length === 0) return null;
+
+      let parentId: string | null = null;
+      for (let k = 0; k < segs.length - 1; k++) {
+        const prefixId = segs.slice(0, k + 1).map(seg => seg.text).join(PATH_ID_SEPARATOR);
+        if (!pathNodes.has(prefixId)) {
+          const prefix: NodeRow = {
+            id: prefixId,
+            parentId,
+            label: segs[k].text,
+            values: [],
+            series: this.hasSparklineSeries ? [] : null,
+            // level columns select every row under the prefix; a path column has no prefix identity,
+            // so selecting the prefix selects the rows under it instead (see getSelectionIds)
+            selectionId: levelCats.length > 0
+              ? buildPathSelection(segs.slice(0, k + 1), i)
+              : this.host.createSelectionIdBuilder().createSelectionId()
+          };
+          pathNodes.set(prefixId, prefix);
+          rows.push(prefix);
+        }
+        parentId = prefixId;
+      }
+
+      return {
+        id: segs.map(seg => seg.text).join(PATH_ID_SEPARATOR),
+        parentId,
+        label: segs[segs.length - 1].text,
+        selectionId: () => buildPathSelection(segs, i)
+      };
+    };
+
+    // With a Period field each node arrives as one row per period: the first row
+    // creates the node, every row adds a point, and the latest period drives the values.
+    // Rows are merged per (id, parent) so duplicate ids and secondary parents still reach
+    // resolveHierarchy as separate rows.
+    const byPeriodKey = new Map<string, { row: NodeRow; latest: PeriodKey | null; periods: Set<PeriodKey> }>();
 
     for (let i = 0; i < len; i++) {
-      const id = String(nodeIdCat.values[i] ?? "").trim();
-      if (!id) continue;
+      const identity = identify(i);
+      if (!identity) continue;
+      const id = identity.id;
+
+      const periodKey = periodCat ? this.toPeriodKey(periodCat.values[i]) : null;
+      const mergeKey = `${id}${PATH_ID_SEPARATOR}${identity.parentId ?? ""}`;
+      const existing = periodCat ? byPeriodKey.get(mergeKey) : undefined;
+      if (existing) {
+        const sparkRaw = sparkCol ? this.getValueWithHighlight(sparkCol, i) : null;
+        // one point per period, even when the period repeats across rows
+        if (periodKey !== null && typeof sparkRaw === "number" && Number.isFinite(sparkRaw) && !existing.periods.has(periodKey)) {
+          existing.periods.add(periodKey);
+          existing.row.series?.push({ key: periodKey, value: sparkRaw });
+        }
+        if (periodKey !== null && (existing.latest === null || this.comparePeriodKeys(periodKey, existing.latest) > 0)) {
+          existing.latest = periodKey;
+          existing.row.values = valueCols.map(c => this.getValueWithHighlight(c, i));
+          existing.row.sparkline = sparkRaw;
+          existing.row.tooltip = tooltipCol ? (tooltipCol.values[i] as number | string | null) : null;
+          existing.row.target = targetCol ? this.getValueWithHighlight(targetCol, i) : null;
+          existing.row.linkValue = linkValueCol ? this.getValueWithHighlight(linkValueCol, i) : null;
+          existing.row.sortKey = sortByCol ? (sortByCol.values[i] as number | string | null) : null;
+        }
+        continue;
+      }
 
-      const pidRaw = parentIdCat.values[i];
-      const parentId =
-        pidRaw === null || pidRaw === undefined || String(pidRaw).trim() === ""
-          ? null
-          : String(pidRaw).trim();
+      const parentId = identity.parentId;
 
       const label = fieldCats.length > 0
         ? fieldCats
           .map(c => c.values[i])
           .map(v => (v === null || v === undefined ? "" : String(v).trim()))
           .filter(Boolean)
-          .join(" / ") || id
-        : id;
+          .join(" / ") || identity.label
+        : identity.label;
 
       const sparkline = sparkCol ? this.getValueWithHighlight(sparkCol, i) : null;
-      const value = valuesCol ? this.getValueWithHighlight(valuesCol, i) : null;
+      const rowValues = valueCols.map(c => this.getValueWithHighlight(c, i));
       const tooltip = tooltipCol ? (tooltipCol.values[i] as number | string | null) : null;
+      const target = targetCol ? this.getValueWithHighlight(targetCol, i) : null;
+      const linkValue = linkValueCol ? this.getValueWithHighlight(linkValueCol, i) : null;
+      const sortKey = sortByCol ? (sortByCol.values[i] as number | string | null) : null;
       const dropdownRaw = dropdownCat ? dropdownCat.values[i] : null;
       const dropdown = dropdownRaw === null || dropdownRaw === undefined ? null : String(dropdownRaw);
+      const imageUrl = imageCat ? this.toImageUrl(imageCat.values[i]) : null;
+      const url = urlCat ? this.toLinkUrl(urlCat.values[i]) : null;
+      const colors = this.getNodeColors(cats, i);
+
+      const selectionId = identity.selectionId();
+
+      const series: SparkPoint[] | null = this.hasSparklineSeries ? [] : null;
+      if (series && periodKey !== null && typeof sparkline === "number" && Number.isFinite(sparkline)) {
+        series.push({ key: periodKey, value: sparkline });
+      }
 
-      const selectionId = this.host
-        .createSelectionIdBuilder()
-        .withCategory(nodeIdCat, i)
-        .createSelectionId();
+      let row: NodeRow = {
+        id,
+        parentId,
+        label,
+        values: rowValues,
+        sparkline,
+        series,
+        tooltip,
+        target,
+        linkValue,
+        dropdown,
+        imageUrl,
+        url,
+        colors,
+        sortKey,
+        selectionId
+      };
+
+      // a path that already exists as an intermediate node takes over that node
+      const placeholder = pathNodes.get(id);
+      if (placeholder && !leafIds.has(id)) {
+        row = Object.assign(placeholder, row);
+      } else {
+        rows.push(row);
+        if (!isParentChild && !placeholder) pathNodes.set(id, row);
+      }
+      leafIds.add(id);
+      if (periodCat) {
+        const periods = new Set<PeriodKey>();
+        if (series?.length && periodKey !== null) periods.add(periodKey);
+        byPeriodKey.set(mergeKey, { row, latest: periodKey, periods });
+      }
+    }
 
-      rows.push({ id, parentId, label, value, sparkline, tooltip, dropdown, selectionId });
+    for (const r of rows) {
+      r.series?.sort((a, b) => this.comparePeriodKeys(a.key, b.key));
     }
 
     return rows;
   }
 
+  /** Accepts http(s) URLs and data URIs; bare base64 (as stored in many models) is wrapped as a data URI */
+  private toImageUrl(raw: powerbi.PrimitiveValue): string | null {
+    if (raw === null || raw === undefined) return null;
+    const text = String(raw).trim();
+    if (!text) return null;
+    if (/^(https?:\/\/|data:image\/)/i.test(text)) return text;
+    if (text.length > 64 && /^[A-Za-z0-9+/=\s]+$/.test(text)) {
+      const mime = text.startsWith("/9j/") ? "image/jpeg" : text.startsWith("R0lGOD") ? "image/gif" : "image/png";
+      return `data:${mime};base64,${text.replace(/\s+/g, "")}`;
+    }
+    return null;
+  }
+
+  /** host.launchUrl only opens http(s) links */
+  private toLinkUrl(raw: powerbi.PrimitiveValue): string | null {
+    if (raw === null || raw === undefined) return null;
+    const text = String(raw).trim();
+    return /^https?:\/\/\S+$/i.test(text) ? text : null;
+  }
+
+  /** fx rule results arrive as per-row objects on the category columns */
+  private getNodeColors(cats: powerbi.DataViewCategoryColumn[], i: number): NodeColors | null {
+    const colorOf = (prop: string): string | undefined => {
+      for (const cat of cats) {
+        const fill = (cat.objects?.[i]?.nodes?.[prop] as powerbi.Fill | undefined)?.solid?.color;
+        if (typeof fill === "string" && fill) return fill;
+      }
+      return undefined;
+    };
+    const colors: NodeColors = {
+      fill: colorOf("fillColor"),
+      stroke: colorOf("strokeColor"),
+      title: colorOf("titleColor")
+    };
+    return colors.fill || colors.stroke || colors.title ? colors : null;
+  }
+
+  private toPeriodKey(raw: powerbi.PrimitiveValue): PeriodKey | null {
+    if (raw === null || raw === undefined) return null;
+    if (raw instanceof Date) return raw.getTime();
+    if (typeof raw === "number") return Number.isFinite(raw) ? raw : null;
+    const text = String(raw).trim();
+    return text ? text : null;
+  }
+
+  private comparePeriodKeys(a: PeriodKey, b: PeriodKey): number {
+    if (typeof a === "number" && typeof b === "number") return a - b;
+    return String(a).localeCompare(String(b), undefined, { numeric: true });
+  }
+
+  private createFormatters(column: powerbi.DataViewValueColumn): ValueFormatters {
+    const format = valueFormatter.getFormatStringByColumn(column.source, true);
+    const cultureSelector = this.host.locale;
+
+    // "Auto" display units scale by the largest magnitude in the column
+    let maxAbs = 0;
+    for (const v of column.values) {
+      if (typeof v === "number" && Number.isFinite(v)) maxAbs = Math.max(maxAbs, Math.abs(v));
+    }
+
+    const create = (displayUnits: number, decimalPlaces: number | null): IValueFormatter =>
+      valueFormatter.create({
+        format,
+        value: displayUnits === 0 ? maxAbs : displayUnits,
+        precision: decimalPlaces ?? undefined,
+        cultureSelector
+      });
+
+    const nodes = this.settings.nodes;
+    const table = this.settings.table;
+    return {
+      card: create(nodes.displayUnits, nodes.decimalPlaces),
+      table: create(table.displayUnits, table.decimalPlaces),
+      tooltip: valueFormatter.create({ format, cultureSelector })
+    };
+  }
+
+  private resolveHierarchy(rows: NodeRow[]): NodeRow[] {
+    const diagnostics = this.settings.diagnostics;
+    const issues: HierarchyIssues = { duplicates: [], cycles: [], orphans: [] };
+
+    // multiple parents: the first row's parent is primary, repeats with another parent become secondary
+    if (this.settings.layout.allowMultipleParents) {
+      const primaryById = new Map<string, NodeRow>();
+      const merged: NodeRow[] = [];
+      for (const r of rows) {
+        const primary = primaryById.get(r.id);
+        if (!primary) {
+          const copy = { ...r, secondaryParentIds: [] as string[] };
+          primaryById.set(r.id, copy);
+          merged.push(copy);
+          continue;
+        }
+        if (r.parentId && r.parentId !== primary.parentId) {
+          if (!primary.secondaryParentIds!.includes(r.parentId)) primary.secondaryParentIds!.push(r.parentId);
+          continue;
+        }
+        merged.push(r);
+      }
+      rows = merged;
+    }
+
+    // duplicates: first row keeps the id, later ones get a unique id under Unresolved
+    const seen = new Map<string, number>();
+    let working = rows.map(r => {
+      const count = seen.get(r.id) ?? 0;
+      seen.set(r.id, count + 1);
+      if (count === 0) return r;
+      if (count === 1) issues.duplicates.push(r.id);
+      return { ...r, id: `${UNRESOLVED_ID}/${r.id}#${count}`, parentId: UNRESOLVED_ID };
+    });
+
+    const byId = new Map(working.map(r => [r.id, r]));
+
+    // orphans: parent reference that matches no row
+    const orphanChildren = new Map<string, string[]>();
+    for (const r of working) {
+      if (!r.parentId || r.parentId === UNRESOLVED_ID || byId.has(r.parentId)) continue;
+      const arr = orphanChildren.get(r.parentId) ?? [];
+      arr.push(r.id);
+      orphanChildren.set(r.parentId, arr);
+    }
+    for (const [parentId, childIds] of orphanChildren) issues.orphans.push({ parentId, childIds });
+
+    // secondary parents that match no row are reported and dropped
+    for (const r of working) {
+      if (!r.secondaryParentIds?.length) continue;
+      const missing = r.secondaryParentIds.filter(p => !byId.has(p));
+      for (const parentId of missing) {
+        const existing = issues.orphans.find(o => o.parentId === parentId);
+        if (existing) existing.childIds.push(r.id);
+        else issues.orphans.push({ parentId, childIds: [r.id] });
+      }
+      if (missing.length) r.secondaryParentIds = r.secondaryParentIds.filter(p => byId.has(p));
+    }
+
+    // cycles: walk parent pointers; a node seen on the current walk closes a cycle
+    const state = new Map<string, "active" | "done">();
+    const cycleBreaks = new Set<string>();
+    for (const r of working) {
+      if (state.has(r.id)) continue;
+      const path: string[] = [];
+      let currentId: string | null = r.id;
+      while (currentId && byId.has(currentId) && !state.has(currentId)) {
+        state.set(currentId, "active");
+        path.push(currentId);
+        currentId = byId.get(currentId)?.parentId ?? null;
+      }
+      if (currentId && state.get(currentId) === "active") {
+        const cycle = path.slice(path.indexOf(currentId));
+        issues.cycles.push(cycle);
+        // cut the cycle at the member whose row comes first
+        const cutId = working.find(w => cycle.includes(w.id))?.id ?? cycle[0];
+        cycleBreaks.add(cutId);
+      }
+      for (const id of path) state.set(id, "done");
+    }
+
+    const needsGroup = issues.duplicates.length > 0
+      || cycleBreaks.size > 0
+      || (diagnostics.groupOrphans && issues.orphans.length > 0);
+
+    if (cycleBreaks.size > 0 || (diagnostics.groupOrphans && issues.orphans.length > 0)) {
+      working = working.map(r => {
+        const isOrphan = diagnostics.groupOrphans && r.parentId && !byId.has(r.parentId) && r.parentId !== UNRESOLVED_ID;
+        return cycleBreaks.has(r.id) || isOrphan ? { ...r, parentId: UNRESOLVED_ID } : r;
+      });
+    }
+
+    if (needsGroup) {
+      working.push({
+        id: UNRESOLVED_ID,
+        parentId: null,
+        label: diagnostics.unresolvedLabel,
+        selectionId: this.host.createSelectionIdBuilder().createSelectionId()
+      });
+    }
+
+    const hadIssues = this.hasHierarchyIssues();
+    this.hierarchyIssues = issues;
+    if (this.hasHierarchyIssues() !== hadIssues) this.diagnosticsDismissed = false;
+
+    if (issues.duplicates.length > 0 || issues.cycles.length > 0) {
+      const msg = this.localize(
+        "Message.HierarchyIssues",
+        "Hierarchy has duplicate IDs or cycles; affected rows are shown under the Unresolved group."
+      );
+      this.host.displayWarningIcon?.(msg, msg);
+    }
+
+    return working;
+  }
+
+  private hasHierarchyIssues(): boolean {
+    const issues = this.hierarchyIssues;
+    return issues.duplicates.length > 0 || issues.cycles.length > 0 || issues.orphans.length > 0;
+  }
+
+  private isUnresolvedId(id: string): boolean {
+    return id === UNRESOLVED_ID || id.startsWith(`${UNRESOLVED_ID}/`);
+  }
+
+  /** Groups the visual adds itself (the "All" root, Unresolved): selecting one clears the selection */
+  private isSyntheticId(id: string): boolean {
+    return id === SYNTHETIC_ROOT_ID || id === UNRESOLVED_ID;
+  }
+
+  /** A path prefix has no identity of its own: selecting it selects every data row under it */
+  private getSelectionIds(node: { id: string; selectionId: ISelectionId }): ISelectionId[] {
+    if (node.selectionId.hasIdentity()) return [node.selectionId];
+    const byId = new Map(this.allRows.map(r => [r.id, r]));
+    const ids: ISelectionId[] = [];
+    const visited = new Set<string>();
+    const stack = [...(this.childrenMap.get(node.id) ?? [])];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      const row = byId.get(id);
+      if (row?.selectionId.hasIdentity()) ids.push(row.selectionId);
+      stack.push(...(this.childrenMap.get(id) ?? []));
+    }
+    return ids;
+  }
+
   private getValueWithHighlight(column: powerbi.DataViewValueColumn, index: number): number | string | null {
     const highlights = (column as any).highlights as (number | string | null)[] | undefined;
     if (highlights && highlights.length > index) {
@@ -383,13 +1151,17 @@ export class Visual implements IVisual {
     return column.values[index] as number | string | null;
   }
 
+  /** Parent → children, including secondary parents so collapse and filters follow every relationship */
   private buildChildrenMap(rows: NodeRow[]): Map<string, string[]> {
     const map = new Map<string, string[]>();
+    const add = (parentId: string, childId: string) => {
+      const arr = map.get(parentId) ?? [];
+      arr.push(childId);
+      map.set(parentId, arr);
+    };
     for (const r of rows) {
-      if (!r.parentId) continue;
-      const arr = map.get(r.parentId) ?? [];
-      arr.push(r.id);
-      map.set(r.parentId, arr);
+      if (r.parentId) add(r.parentId, r.id);
+      for (const p of r.secondaryParentIds ?? []) add(p, r.id);
     }
     return map;
   }
@@ -436,15 +1208,17 @@ export class Visual implements IVisual {
         if (!filtered) {
           return {
             ...r,
-            value: null,
+            values: [],
             sparkline: null,
+            series: null,
             tooltip: null
           };
         }
         return {
           ...r,
-          value: filtered.value,
+          values: filtered.values,
           sparkline: filtered.sparkline,
+          series: filtered.series,
           tooltip: filtered.tooltip,
           selectionId: filtered.selectionId
         };
@@ -533,7 +1307,7 @@ export class Visual implements IVisual {
 
   private filterToParentBranch(rows: NodeRow[], parentId: string): NodeRow[] {
     const byId = new Map(rows.map(r => [r.id, r]));
-    const children = rows.filter(r => r.parentId === parentId).map(r => r.id);
+    const children = (this.childrenMap.get(parentId) ?? []).filter(id => byId.has(id));
     if (children.length === 0) return rows;
 
     const include = new Set<string>();
@@ -619,8 +1393,9 @@ export class Visual implements IVisual {
     const dropdownValues = new Set<string>();
 
     for (const r of sourceRows) {
+      if (this.isUnresolvedId(r.id)) continue;
       ids.add(r.id);
-      if (r.parentId) parentIds.add(r.parentId);
+      if (r.parentId && !this.isUnresolvedId(r.parentId)) parentIds.add(r.parentId);
       if (r.dropdown) dropdownValues.add(r.dropdown);
     }
 
@@ -636,7 +1411,7 @@ export class Visual implements IVisual {
       for (const v of values) {
         const opt = document.createElement("option");
         opt.value = v;
-        opt.textContent = v;
+        opt.textContent = this.formatPathId(v);
         select.appendChild(opt);
       }
 
@@ -674,29 +1449,39 @@ export class Visual implements IVisual {
   }
 
   private setSparklineRange(rows: NodeRow[]): void {
-    const values: number[] = [];
+    let min = Infinity;
+    let max = -Infinity;
     for (const r of rows) {
-      if (typeof r.sparkline === "number" && Number.isFinite(r.sparkline)) {
-        values.push(r.sparkline);
+      if (r.series) {
+        for (const p of r.series) {
+          min = Math.min(min, p.value);
+          max = Math.max(max, p.value);
+        }
+      } else if (typeof r.sparkline === "number" && Number.isFinite(r.sparkline)) {
+        min = Math.min(min, r.sparkline);
+        max = Math.max(max, r.sparkline);
       }
     }
-    if (values.length === 0) {
+    if (min > max) {
       this.sparklineMin = null;
       this.sparklineMax = null;
       return;
     }
-    this.sparklineMin = Math.min(...values);
-    this.sparklineMax = Math.max(...values);
+    this.sparklineMin = min;
+    this.sparklineMax = max;
   }
 
   // ---------------------------
   // Collapse-aware layout
   // ---------------------------
   private computeLayoutFromState(autoFit = true, focusNodeId?: string): boolean {
-    const visibleRows = this.computeVisibleRows(this.allRows, this.collapsedIds);
+    const filteredRows = this.applyViewFilters(this.allRows);
+    this.rollups = this.computeRollups(filteredRows);
+    const visibleRows = this.sortSiblings(this.computeVisibleRows(filteredRows, this.collapsedIds), filteredRows);
     if (visibleRows.length === 0) {
       this.nodes = [];
       this.links = [];
+      this.crossLinks = [];
       this.tableRows = [];
       if (this.searchQuery || this.hierarchyFilterValue || this.parentFilterValue) {
         this.clearAndMessage(this.localize("Message.NoMatches", "No matches."));
@@ -712,10 +1497,100 @@ export class Visual implements IVisual {
     return true;
   }
 
-  private computeVisibleRows(rows: NodeRow[], collapsed: Set<string>): NodeRow[] {
+  /** Dropdown + search filters; collapse state is applied afterwards by computeVisibleRows */
+  private applyViewFilters(rows: NodeRow[]): NodeRow[] {
     const dropdownRows = this.applyDropdownFilters(rows);
-    const filteredRows = this.applySearchFilter(dropdownRows, this.searchQuery);
-    const sourceRows = filteredRows;
+    return this.applySearchFilter(dropdownRows, this.searchQuery);
+  }
+
+  /**
+   * Aggregates each parent's descendants within the filtered rows (collapsed
+   * subtrees still count). Leaves get no rollup.
+   */
+  private computeRollups(rows: NodeRow[]): Map<string, Rollup> {
+    const result = new Map<string, Rollup>();
+    const mode = this.settings.rollup.mode;
+    if (mode === "none") return result;
+
+    const byId = new Map(rows.map(r => [r.id, r]));
+    const measureCount = this.measureColumns.length;
+    // one extra slot after the measures for the Target measure
+    const statCount = measureCount + 1;
+    type Stats = { sum: number; n: number; min: number; max: number };
+    const emptyStats = (): Stats[] =>
+      Array.from({ length: statCount }, () => ({ sum: 0, n: 0, min: Infinity, max: -Infinity }));
+    const subtree = new Map<string, { stats: Stats[]; descendants: number; leaves: number }>();
+
+    // post-order over the filtered forest
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const stack = rows.filter(r => !r.parentId || !byId.has(r.parentId)).map(r => r.id);
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      order.push(id);
+      for (const c of this.childrenMap.get(id) ?? []) {
+        if (byId.get(c)?.parentId === id) stack.push(c);
+      }
+    }
+
+    for (let i = order.length - 1; i >= 0; i--) {
+      const id = order[i];
+      const stats = emptyStats();
+      let descendants = 0;
+      let leaves = 0;
+      // secondary links are skipped so a shared node is only counted once
+      const children = (this.childrenMap.get(id) ?? []).filter(c => subtree.has(c) && byId.get(c)?.parentId === id);
+
+      for (const c of children) {
+        const child = subtree.get(c)!;
+        descendants += child.descendants + 1;
+        leaves += child.descendants === 0 ? 1 : child.leaves;
+
+        const own = byId.get(c);
+        for (let m = 0; m < statCount; m++) {
+          const agg = stats[m];
+          const childAgg = child.stats[m];
+          agg.sum += childAgg.sum;
+          agg.n += childAgg.n;
+          agg.min = Math.min(agg.min, childAgg.min);
+          agg.max = Math.max(agg.max, childAgg.max);
+          const v = m < measureCount ? own?.values?.[m] : own?.target;
+          if (typeof v === "number" && Number.isFinite(v)) {
+            agg.sum += v;
+            agg.n += 1;
+            agg.min = Math.min(agg.min, v);
+            agg.max = Math.max(agg.max, v);
+          }
+        }
+      }
+
+      subtree.set(id, { stats, descendants, leaves });
+      if (children.length === 0) continue;
+
+      const values = stats.map(agg => {
+        if (agg.n === 0) return null;
+        switch (mode) {
+          case "sum": return agg.sum;
+          case "average": return agg.sum / agg.n;
+          case "min": return agg.min;
+          case "max": return agg.max;
+          default: return null;
+        }
+      });
+      result.set(id, {
+        values: values.slice(0, measureCount),
+        target: values[measureCount],
+        count: mode === "leaves" ? leaves : descendants
+      });
+    }
+
+    return result;
+  }
+
+  private computeVisibleRows(rows: NodeRow[], collapsed: Set<string>): NodeRow[] {
+    const sourceRows = rows;
     const idSet = new Set<string>();
     for (const r of sourceRows) {
       idSet.add(r.id);
@@ -741,8 +1616,114 @@ export class Visual implements IVisual {
       for (const c of children) stack.push(c);
     }
 
-    // Preserve original row order for stability
-    return sourceRows.filter(r => visible.has(r.id));
+    // Preserve original row order for stability; sortSiblings reorders afterwards when a sort is set
+    const result = sourceRows.filter(r => visible.has(r.id));
+    return this.applySecondaryParents(result, visible, collapsed);
+  }
+
+  /**
+   * Orders rows by the Sort order card. Children are laid out (and listed in the table) in row
+   * order, so one stable sort over all rows orders every sibling group; ties and blanks keep data
+   * order, with blanks last in either direction. Totals and counts cover the filtered subtree,
+   * collapsed parts included.
+   */
+  private sortSiblings(rows: NodeRow[], subtreeRows: NodeRow[]): NodeRow[] {
+    const { by, direction } = this.settings.sort;
+    if (by === "none" || (by === "field" && !this.hasSortByField)) return rows;
+
+    const keys = this.getSortKeys(by, subtreeRows);
+    const sign = direction === "descending" ? -1 : 1;
+    return rows.slice().sort((a, b) => {
+      const ka = keys.get(a.id) ?? null;
+      const kb = keys.get(b.id) ?? null;
+      if (ka === null || kb === null) return ka === kb ? 0 : (ka === null ? 1 : -1);
+      const diff = typeof ka === "number" && typeof kb === "number"
+        ? ka - kb
+        : String(ka).localeCompare(String(kb), undefined, { numeric: true, sensitivity: "base" });
+      return diff * sign;
+    });
+  }
+
+  private getSortKeys(by: SortBy, rows: NodeRow[]): Map<string, CellValue> {
+    const keys = new Map<string, CellValue>();
+    const numeric = (v: CellValue | undefined) => (typeof v === "number" && Number.isFinite(v) ? v : null);
+
+    if (by === "label" || by === "value" || by === "field") {
+      for (const r of rows) {
+        keys.set(r.id, by === "label" ? r.label : by === "value" ? numeric(r.values?.[0]) : (r.sortKey ?? null));
+      }
+      return keys;
+    }
+
+    // subtree total / descendant count: post-order over the primary tree, as in computeRollups
+    const byId = new Map(rows.map(r => [r.id, r]));
+    const order: string[] = [];
+    const visited = new Set<string>();
+    const stack = rows.filter(r => !r.parentId || !byId.has(r.parentId)).map(r => r.id);
+    while (stack.length) {
+      const id = stack.pop()!;
+      if (visited.has(id)) continue;
+      visited.add(id);
+      order.push(id);
+      for (const c of this.childrenMap.get(id) ?? []) {
+        if (byId.get(c)?.parentId === id) stack.push(c);
+      }
+    }
+
+    const totals = new Map<string, { sum: number | null; count: number }>();
+    for (let i = order.length - 1; i >= 0; i--) {
+      const id = order[i];
+      let sum = numeric(byId.get(id)?.values?.[0]);
+      let count = 0;
+      for (const c of this.childrenMap.get(id) ?? []) {
+        const child = byId.get(c)?.parentId === id ? totals.get(c) : undefined;
+        if (!child) continue;
+        count += child.count + 1;
+        if (child.sum !== null) sum = (sum ?? 0) + child.sum;
+      }
+      totals.set(id, { sum, count });
+      keys.set(id, by === "total" ? sum : count);
+    }
+    return keys;
+  }
+
+  /**
+   * A node whose primary parent is hidden or collapsed but that is reachable
+   * through an open secondary parent is laid out under that secondary parent.
+   */
+  private applySecondaryParents(rows: NodeRow[], visible: Set<string>, collapsed: Set<string>): NodeRow[] {
+    if (!rows.some(r => r.secondaryParentIds?.length)) return rows;
+
+    const isOpen = (id: string) => visible.has(id) && !collapsed.has(id);
+    const parentOf = new Map<string, string | null>();
+    const moved: string[] = [];
+
+    for (const r of rows) {
+      let parentId = r.parentId;
+      if ((!parentId || !isOpen(parentId)) && r.secondaryParentIds?.length) {
+        const open = r.secondaryParentIds.find(isOpen);
+        if (open) {
+          parentId = open;
+          moved.push(r.id);
+        }
+      }
+      parentOf.set(r.id, parentId);
+    }
+    if (moved.length === 0) return rows;
+
+    // a move must not create a cycle; fall back to a root when it would
+    for (const id of moved) {
+      let currentId = parentOf.get(id) ?? null;
+      for (let steps = 0; currentId && steps <= rows.length; steps++) {
+        if (currentId === id) {
+          parentOf.set(id, null);
+          break;
+        }
+        currentId = parentOf.get(currentId) ?? null;
+      }
+    }
+
+    return rows.map(r => (parentOf.get(r.id) === r.parentId ? r : { ...r, parentId: parentOf.get(r.id) ?? null }));
   }
 
   private computeLayout(rows: NodeRow[], autoFit = true): boolean {
@@ -756,7 +1737,7 @@ export class Visual implements IVisual {
     let syntheticRootId: string | null = null;
 
     if (roots.length !== 1) {
-      syntheticRootId = "__root__";
+      syntheticRootId = SYNTHETIC_ROOT_ID;
       const synthetic: NodeRow = {
         id: syntheticRootId,
         parentId: null,
@@ -781,6 +1762,7 @@ export class Visual implements IVisual {
     } catch (e) {
       this.nodes = [];
       this.links = [];
+      this.crossLinks = [];
       this.tableRows = [];
       const msg = this.localize(
         "Message.InvalidHierarchy",
@@ -791,12 +1773,30 @@ export class Visual implements IVisual {
       return false;
     }
 
-    const layout = tree<NodeRow>().nodeSize([
-      s.cardWidth + s.siblingSpacing,
-      s.cardHeight + s.levelSpacing
-    ]);
+    // cards are sized before layout so the tree can make room for each one
+    const fixedHeight = this.getCardHeight();
+    const byId = new Map<string, LayoutNode>();
+    for (const d of working) {
+      const ln = this.toLayoutNode(d, fixedHeight);
+      if (s.autoSize) Object.assign(ln, this.measureCard(ln));
+      byId.set(d.id, ln);
+    }
 
-    const laidOut = layout(root);
+    const rails = new Map<string, { x: number; top: number }>();
+    let laidOut: HierarchyPointNode<NodeRow>;
+    if (s.compactLeaves && s.orientation === "TD") {
+      laidOut = this.computeCompactLayout(root, byId, rails);
+    } else if (s.orientation === "radial") {
+      laidOut = this.computeRadialLayout(root, byId);
+    } else if (s.autoSize) {
+      laidOut = this.computeSizedLayout(root, byId);
+    } else {
+      const layout = tree<NodeRow>().nodeSize([
+        s.cardWidth + s.siblingSpacing,
+        fixedHeight + s.levelSpacing
+      ]);
+      laidOut = layout(root);
+    }
 
     const flat: LayoutNode[] = [];
     const ordered: LayoutNode[] = [];
@@ -805,18 +1805,11 @@ export class Visual implements IVisual {
     const depthOffset = syntheticRootId ? 1 : 0;
 
     laidOut.eachBefore((n) => {
-      const d = n.data;
-      const ln: LayoutNode = {
-        id: d.id,
-        label: d.label,
-        value: d.value,
-        sparkline: d.sparkline,
-        tooltip: d.tooltip,
-        x: n.x,
-        y: n.y,
-        selectionId: d.selectionId,
-        depth: n.depth - depthOffset
-      };
+      const ln = byId.get(n.data.id)!;
+      ln.x = n.x;
+      ln.y = n.y;
+      ln.depth = n.depth - depthOffset;
+      ln.rail = rails.get(ln.id);
       map.set(n, ln);
       flat.push(ln);
       ordered.push(ln);
@@ -834,6 +1827,25 @@ export class Visual implements IVisual {
       }
     });
 
+    // secondary parents that are on screen get a cross-link
+    const crossLinks: Array<{ source: LayoutNode; target: LayoutNode }> = [];
+    const hasSecondary = this.allRows.some(r => r.secondaryParentIds?.length);
+    if (hasSecondary) {
+      const nodeById = new Map(flat.map(n => [n.id, n]));
+      const relations = new Map(this.allRows.map(r => [r.id, r]));
+      for (const n of flat) {
+        const row = relations.get(n.id);
+        if (!row) continue;
+        const parentIds = [row.parentId, ...(row.secondaryParentIds ?? [])];
+        for (const p of parentIds) {
+          if (!p || p === n.parent?.id) continue;
+          const source = nodeById.get(p);
+          if (source) crossLinks.push({ source, target: n });
+        }
+      }
+    }
+    this.crossLinks = crossLinks;
+
     if (syntheticRootId) {
       this.nodes = flat.filter(n => n.id !== syntheticRootId);
       this.links = links.filter(l => l.source.id !== syntheticRootId);
@@ -844,24 +1856,254 @@ export class Visual implements IVisual {
       this.tableRows = ordered;
     }
 
-    if (s.orientation === "LR") {
+    if (s.orientation === "LR" || s.orientation === "RL") {
+      const flip = s.orientation === "RL" ? -1 : 1;
       for (const n of this.nodes) {
         const t = n.x;
-        n.x = n.y;
+        n.x = n.y * flip;
         n.y = t;
       }
+    } else if (s.orientation === "BU") {
+      for (const n of this.nodes) n.y = -n.y;
+    } else if (s.orientation === "radial") {
+      // polar projection: x is the angle, y the ring radius
+      for (const n of this.nodes) {
+        const angle = n.x;
+        const radius = n.y;
+        const a = angle - Math.PI / 2;
+        n.polar = { angle, radius };
+        n.x = radius * Math.cos(a);
+        n.y = radius * Math.sin(a);
+        // keep text upright on the left half
+        n.rotation = s.rotateLabels && radius > 0 ? (Math.cos(a) < 0 ? a + Math.PI : a) : 0;
+      }
     }
 
     if (autoFit) this.fitToViewport();
     return true;
   }
 
-  private getNodeScreenPoint(nodeId: string | null): { x: number; y: number } | null {
-    if (!nodeId) return null;
-    const node = this.nodes.find(n => n.id === nodeId);
-    if (!node) return null;
+  /** Unplaced card for a row, at the configured card size */
+  private toLayoutNode(d: NodeRow, cardHeight: number): LayoutNode {
     return {
-      x: node.x * this.scale + this.tx,
+      id: d.id,
+      label: d.label,
+      values: d.values,
+      rollup: this.rollups.get(d.id) ?? null,
+      sparkline: d.sparkline,
+      series: d.series,
+      tooltip: d.tooltip,
+      target: d.target,
+      linkValue: d.linkValue,
+      imageUrl: d.imageUrl,
+      url: d.url,
+      dropdown: d.dropdown,
+      colors: d.colors,
+      x: 0,
+      y: 0,
+      w: this.settings.layout.cardWidth,
+      h: cardHeight,
+      titleLines: 2,
+      selectionId: d.selectionId,
+      depth: 0
+    };
+  }
+
+  /** Root at the centre, one ring per level; the outer ring grows until the leaves fit around it */
+  private computeRadialLayout(root: HierarchyNode<NodeRow>, byId: Map<string, LayoutNode>): HierarchyPointNode<NodeRow> {
+    const s = this.settings.layout;
+    const cell = this.getLargestCard(byId);
+    const ringStep = Math.max(cell.w, cell.h) + s.levelSpacing;
+    const across = (s.rotateLabels ? cell.h : cell.w) + s.siblingSpacing;
+    const radius = Math.max(
+      Math.max(1, root.height) * ringStep,
+      (root.leaves().length * across) / (2 * Math.PI)
+    );
+
+    return tree<NodeRow>()
+      .size([2 * Math.PI, radius])
+      .separation((a, b) => (a.parent === b.parent ? 1 : 2) / Math.max(1, a.depth))(root);
+  }
+
+  /** Distance from a card centre to its edge along screen angle a */
+  private getRadialHalfExtent(node: LayoutNode, a: number): number {
+    if (node.rotation) return node.w / 2;
+    const cos = Math.abs(Math.cos(a));
+    const sin = Math.abs(Math.sin(a));
+    return Math.min(cos > 1e-6 ? node.w / 2 / cos : Infinity, sin > 1e-6 ? node.h / 2 / sin : Infinity);
+  }
+
+  /** Bounding size of the largest card; layouts with uniform cells use it */
+  private getLargestCard(byId: Map<string, LayoutNode>): { w: number; h: number } {
+    let w = 0;
+    let h = 0;
+    for (const n of byId.values()) {
+      w = Math.max(w, n.w);
+      h = Math.max(h, n.h);
+    }
+    return { w, h };
+  }
+
+  /**
+   * Tidy tree with per-card sizes: siblings are spaced by their own widths (pixel separation),
+   * and each level is as deep as its largest card, with cards aligned on the parent side.
+   */
+  private computeSizedLayout(root: HierarchyNode<NodeRow>, byId: Map<string, LayoutNode>): HierarchyPointNode<NodeRow> {
+    const s = this.settings.layout;
+    const vertical = this.isVerticalFlow();
+    const across = (d: NodeRow) => (vertical ? byId.get(d.id)!.w : byId.get(d.id)!.h);
+    const along = (d: NodeRow) => (vertical ? byId.get(d.id)!.h : byId.get(d.id)!.w);
+
+    const laidOut = tree<NodeRow>()
+      .nodeSize([1, 1])
+      .separation((a, b) =>
+        across(a.data) / 2 + across(b.data) / 2 + s.siblingSpacing * (a.parent === b.parent ? 1 : 2)
+      )(root);
+
+    const levelSize: number[] = [];
+    laidOut.each((n) => {
+      levelSize[n.depth] = Math.max(levelSize[n.depth] ?? 0, along(n.data));
+    });
+    const levelStart: number[] = [];
+    let offset = 0;
+    levelSize.forEach((size, depth) => {
+      levelStart[depth] = offset;
+      offset += size + s.levelSpacing;
+    });
+    laidOut.each((n) => {
+      n.y = levelStart[n.depth] + along(n.data) / 2;
+    });
+    return laidOut;
+  }
+
+  /** Content-fitted card size within the Layout card's min/max bounds */
+  private measureCard(n: LayoutNode): { w: number; h: number; titleLines: number } {
+    const s = this.settings.layout;
+    const imageSettings = this.settings.image;
+    const ctx = this.ctx;
+    const toggleSize = 14;
+    const hasChildren = (this.childrenMap.get(n.id)?.length ?? 0) > 0;
+    const controlsPad = (hasChildren ? toggleSize + 10 : 6) + (n.url ? toggleSize + 4 : 0);
+    const showAvatars = this.showAvatars();
+    const avatarLeft = showAvatars && imageSettings.position === "left";
+    const avatarSize = showAvatars ? Math.max(8, imageSettings.size) : 0;
+    const avatarW = avatarLeft ? avatarSize + 6 : 0;
+    const avatarTop = showAvatars && !avatarLeft ? avatarSize + 4 : 0;
+    const titleChrome = avatarW + 6 + controlsPad;
+    const titleSpec = this.getTitleFontSpec();
+    const cardRows = this.getCardRows();
+    const clamp = (v: number, lo: number, hi: number) => Math.min(Math.max(v, lo), Math.max(lo, hi));
+
+    ctx.save();
+    ctx.font = FONT.value;
+    let rowsW = 0;
+    for (const row of cardRows) {
+      const valueW = ctx.measureText(this.getCardRowText(n, row)).width;
+      const labelW = cardRows.length === 1 ? 0 : ctx.measureText(this.getCardRowLabel(n, row)).width + 6;
+      rowsW = Math.max(rowsW, avatarW + 16 + labelW + valueW);
+    }
+    ctx.font = titleSpec.font;
+    const titleW = ctx.measureText(n.label).width + titleChrome;
+    const w = clamp(Math.ceil(Math.max(titleW, rowsW)), s.minCardWidth, s.maxCardWidth);
+    const wantedLines = this.settings.nodes.titleWrap
+      ? this.countWrappedLines(ctx, n.label, w - titleChrome)
+      : 1;
+    ctx.restore();
+
+    const sparkline = this.hasSparklineSeries ? SPARKLINE_HEIGHT + 4 : 0;
+    const fixedH = 6 + avatarTop + 4 + cardRows.length * VALUE_ROW_HEIGHT + sparkline + 6;
+    const fitLines = Math.max(1, Math.floor((s.maxCardHeight - fixedH) / titleSpec.lineHeight));
+    const titleLines = Math.max(1, Math.min(wantedLines, fitLines));
+    const contentH = Math.max(fixedH + titleLines * titleSpec.lineHeight, avatarLeft ? avatarSize + 12 : 0);
+    return { w, h: clamp(Math.ceil(contentH), s.minCardHeight, s.maxCardHeight), titleLines };
+  }
+
+  /**
+   * Tidy tree where leaf siblings are stacked in 1-2 columns beside a rail under their parent.
+   * Stacks take part in the tree as wide pseudo nodes, chained over as many levels as they are
+   * tall, so neighbouring subtrees keep clear of them. Sets x/y on the real nodes.
+   */
+  private computeCompactLayout(
+    root: HierarchyNode<NodeRow>,
+    byId: Map<string, LayoutNode>,
+    rails: Map<string, { x: number; top: number }>
+  ): HierarchyPointNode<NodeRow> {
+    const s = this.settings.layout;
+    const cell = this.getLargestCard(byId);
+    const cardHeight = cell.h;
+    const levelStep = cardHeight + s.levelSpacing;
+    const rowStep = cardHeight + Math.max(8, s.siblingSpacing / 2);
+    const railGap = 16;
+    const cols = s.compactColumns;
+
+    const build = (node: HierarchyNode<NodeRow>): CompactItem => {
+      const children = node.children ?? [];
+      const leaves = children.filter(c => !c.children);
+      const item: CompactItem = { node, width: cell.w, children: [] };
+      if (leaves.length < 2) {
+        item.children = children.map(build);
+        return item;
+      }
+
+      const stackCols = Math.min(cols, leaves.length);
+      const width = stackCols * (cell.w + railGap);
+      const height = Math.ceil(leaves.length / stackCols) * rowStep - (rowStep - cardHeight);
+      const stack: CompactItem = { stack: leaves, width, children: [] };
+      let tail = stack;
+      for (let level = 1; level < Math.ceil(height / levelStep); level++) {
+        const spacer: CompactItem = { width, children: [] };
+        tail.children.push(spacer);
+        tail = spacer;
+      }
+      item.children = [stack, ...children.filter(c => c.children).map(build)];
+      return item;
+    };
+
+    // nodeSize x of 1 lets separation() work in pixels, so wide stacks get their room
+    const layout = tree<CompactItem>()
+      .nodeSize([1, levelStep])
+      .separation((a, b) =>
+        a.data.width / 2 + b.data.width / 2 + s.siblingSpacing +
+        (a.parent === b.parent ? 0 : cell.w + s.siblingSpacing)
+      );
+    const placed = layout(hierarchy(build(root), d => d.children));
+
+    placed.each((p) => {
+      const item = p.data;
+      if (item.node) {
+        const point = item.node as HierarchyPointNode<NodeRow>;
+        point.x = p.x;
+        point.y = p.y;
+      }
+      if (!item.stack) return;
+
+      const stackCols = Math.min(cols, item.stack.length);
+      const left = p.x - item.width / 2;
+      const top = p.y - cardHeight / 2;
+      // one column hangs right of the rail; two columns sit either side of it
+      const railX = stackCols === 1 ? left + railGap / 2 : left + cell.w + railGap;
+      item.stack.forEach((leaf, i) => {
+        const col = i % stackCols;
+        const row = Math.floor(i / stackCols);
+        const size = byId.get(leaf.data.id)!;
+        const point = leaf as HierarchyPointNode<NodeRow>;
+        point.x = stackCols === 1 || col === 1
+          ? railX + railGap / 2 + size.w / 2
+          : railX - railGap / 2 - size.w / 2;
+        point.y = top + row * rowStep + size.h / 2;
+        rails.set(leaf.data.id, { x: railX, top });
+      });
+    });
+
+    return root as HierarchyPointNode<NodeRow>;
+  }
+
+  private getNodeScreenPoint(nodeId: string | null): { x: number; y: number } | null {
+    if (!nodeId) return null;
+    const node = this.nodes.find(n => n.id === nodeId);
+    if (!node) return null;
+    return {
+      x: node.x * this.scale + this.tx,
       y: node.y * this.scale + this.ty
     };
   }
@@ -881,10 +2123,13 @@ export class Visual implements IVisual {
 
     let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
     for (const n of this.nodes) {
-      const x0 = n.x - s.cardWidth / 2;
-      const y0 = n.y - s.cardHeight / 2;
-      const x1 = x0 + s.cardWidth;
-      const y1 = y0 + s.cardHeight;
+      // rotated cards: bound by the larger side in every direction
+      const halfW = n.rotation ? Math.max(n.w, n.h) / 2 : n.w / 2;
+      const halfH = n.rotation ? halfW : n.h / 2;
+      const x0 = n.x - halfW;
+      const y0 = n.y - halfH;
+      const x1 = n.x + halfW;
+      const y1 = n.y + halfH;
       minX = Math.min(minX, x0);
       minY = Math.min(minY, y0);
       maxX = Math.max(maxX, x1);
@@ -908,9 +2153,46 @@ export class Visual implements IVisual {
 
     this.tx = this.lastViewportW / 2 - cx * this.scale;
     this.ty = this.lastViewportH / 2 - cy * this.scale;
+
+    // when the tree is still too big, keep the root edge in view rather than the middle
+    if (contentH * this.scale > availableH) {
+      if (s.orientation === "TD") this.ty = pad - minY * this.scale;
+      else if (s.orientation === "BU") this.ty = this.lastViewportH - pad - maxY * this.scale;
+    }
+    if (contentW * this.scale > availableW) {
+      if (s.orientation === "LR") this.tx = pad - minX * this.scale;
+      else if (s.orientation === "RL") this.tx = this.lastViewportW - pad - maxX * this.scale;
+    }
     this.updateZoomLabel();
   }
 
+  /** Value rows drawn on cards: measures marked "Show on card", then the rollup count */
+  private getCardRows(): CardRow[] {
+    const rows: CardRow[] = [];
+    this.measureColumns.forEach((m, i) => {
+      if (m.showOnCard) rows.push({ label: m.displayName, measureIndex: i });
+    });
+    if (this.isCountRollup()) rows.push({ label: this.getRollupLabel(), measureIndex: null });
+    if (this.showKpi()) rows.push({ label: this.targetColumn!.displayName, measureIndex: null, kpi: true });
+    return rows;
+  }
+
+  /** Card height grows by one row for each extra value row shown on the card */
+  private getCardHeight(): number {
+    const rows = this.getCardRows().length;
+    const sparkline = this.hasSparklineSeries ? SPARKLINE_HEIGHT + 4 : 0;
+    const avatar = this.showAvatars() && this.settings.image.position === "top" ? this.settings.image.size + 4 : 0;
+    return this.settings.layout.cardHeight + Math.max(0, rows - 1) * VALUE_ROW_HEIGHT + sparkline + avatar;
+  }
+
+  private showKpi(): boolean {
+    return Boolean(this.targetColumn) && this.measureColumns.length > 0 && this.settings.kpi.show;
+  }
+
+  private showAvatars(): boolean {
+    return this.hasImageField && this.settings.image.show;
+  }
+
   private localize(key: string, fallback: string): string {
     const value = this.localizationManager?.getDisplayName(key);
     return value || fallback;
@@ -1031,8 +2313,12 @@ export class Visual implements IVisual {
     this.viewGroup = makeGroup();
     this.treeButton = makeButton(this.localize("Toolbar.Tree", "Tree"), "Tree view");
     this.tableButton = makeButton(this.localize("Toolbar.Table", "Table"), "Table view");
+    this.treemapButton = makeButton(this.localize("Toolbar.Treemap", "Treemap"), "Treemap view");
+    this.icicleButton = makeButton(this.localize("Toolbar.Icicle", "Icicle"), "Icicle view");
     this.viewGroup.appendChild(this.treeButton);
     this.viewGroup.appendChild(this.tableButton);
+    this.viewGroup.appendChild(this.treemapButton);
+    this.viewGroup.appendChild(this.icicleButton);
 
     this.treeButton.addEventListener("click", (e) => {
       e.stopPropagation();
@@ -1042,6 +2328,14 @@ export class Visual implements IVisual {
       e.stopPropagation();
       this.setViewMode("table", true);
     });
+    this.treemapButton.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.setViewMode("treemap", true);
+    });
+    this.icicleButton.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.setViewMode("icicle", true);
+    });
 
     // Collapse/expand group
     this.collapseGroup = makeGroup();
@@ -1097,6 +2391,7 @@ export class Visual implements IVisual {
         return;
       }
 
+      this.finishTransition();
       const clamped = Math.min(400, Math.max(20, num));
       const next = clamped / 100;
       const prev = this.scale;
@@ -1131,11 +2426,48 @@ export class Visual implements IVisual {
       this.zoomBy(1.1);
     });
 
+    // Minimap toggle
+    this.minimapGroup = makeGroup();
+    this.minimapButton = makeButton(
+      this.localize("Toolbar.Minimap", "Map"),
+      this.localize("Toolbar.MinimapTitle", "Show or hide minimap")
+    );
+    this.minimapGroup.appendChild(this.minimapButton);
+
+    this.minimapButton.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.minimapVisible = !this.minimapVisible;
+      this.userSetMinimap = true;
+      this.syncToolbarState();
+      if (this.viewMode === "tree") this.renderTree(this.lastViewportW, this.lastViewportH);
+    });
+
+    // Segmented loading status
+    this.loadGroup = makeGroup();
+    this.loadGroup.style.display = "none";
+    this.loadLabel = document.createElement("span");
+    this.loadLabel.style.padding = "4px 6px";
+    this.loadLabel.style.color = "#374151";
+    this.loadLabel.setAttribute("role", "status");
+    this.stopLoadButton = makeButton(
+      this.localize("Toolbar.LoadingStop", "Stop"),
+      this.localize("Toolbar.LoadingStopTitle", "Stop loading")
+    );
+    this.loadGroup.appendChild(this.loadLabel);
+    this.loadGroup.appendChild(this.stopLoadButton);
+
+    this.stopLoadButton.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.stopLoading();
+    });
+
+    this.toolbar.appendChild(this.loadGroup);
     this.toolbar.appendChild(this.searchGroup);
     this.toolbar.appendChild(this.filterGroup);
     this.toolbar.appendChild(this.viewGroup);
     this.toolbar.appendChild(this.collapseGroup);
     this.toolbar.appendChild(this.zoomGroup);
+    this.toolbar.appendChild(this.minimapGroup);
     this.root.appendChild(this.toolbar);
   }
 
@@ -1189,6 +2521,149 @@ export class Visual implements IVisual {
     this.root.appendChild(this.landingPage);
   }
 
+  private createDiagnosticsPanel(): void {
+    this.diagnosticsPanel = document.createElement("div");
+    this.diagnosticsPanel.style.position = "absolute";
+    this.diagnosticsPanel.style.left = "8px";
+    this.diagnosticsPanel.style.bottom = "8px";
+    this.diagnosticsPanel.style.maxWidth = "60%";
+    this.diagnosticsPanel.style.maxHeight = "40%";
+    this.diagnosticsPanel.style.overflow = "auto";
+    this.diagnosticsPanel.style.display = "none";
+    this.diagnosticsPanel.style.zIndex = "10";
+    this.diagnosticsPanel.style.padding = "6px 8px";
+    this.diagnosticsPanel.style.background = "#ffffff";
+    this.diagnosticsPanel.style.border = "1px solid #d1d5db";
+    this.diagnosticsPanel.style.borderRadius = "6px";
+    this.diagnosticsPanel.style.boxShadow = "0 1px 2px rgba(0,0,0,0.08)";
+    this.diagnosticsPanel.style.font = "11px Segoe UI";
+    this.diagnosticsPanel.style.color = "#111827";
+    this.diagnosticsPanel.setAttribute("role", "status");
+    this.diagnosticsPanel.addEventListener("pointerdown", (e) => e.stopPropagation());
+    this.root.appendChild(this.diagnosticsPanel);
+  }
+
+  private renderDiagnostics(): void {
+    if (!this.diagnosticsPanel) return;
+    const panel = this.diagnosticsPanel;
+    this.clearElement(panel);
+
+    const hasContent = this.hasHierarchyIssues() || this.settings.diagnostics.benchmark;
+    if (!this.settings.diagnostics.showPanel || this.diagnosticsDismissed || !hasContent) {
+      panel.style.display = "none";
+      return;
+    }
+
+    const palette = (this.host as any).colorPalette as powerbi.extensibility.ISandboxExtendedColorPalette | undefined;
+    if (palette?.isHighContrast) {
+      panel.style.background = palette.background?.value || "#ffffff";
+      panel.style.color = palette.foreground?.value || "#111827";
+      panel.style.borderColor = palette.foreground?.value || "#d1d5db";
+    }
+
+    const header = document.createElement("div");
+    header.style.display = "flex";
+    header.style.alignItems = "center";
+    header.style.justifyContent = "space-between";
+    header.style.gap = "8px";
+    header.style.font = "600 11px Segoe UI";
+    header.style.marginBottom = "4px";
+
+    const title = document.createElement("span");
+    title.textContent = this.localize("Diagnostics.Title", "Hierarchy diagnostics");
+    header.appendChild(title);
+
+    const close = document.createElement("button");
+    close.type = "button";
+    close.textContent = "×";
+    close.title = this.localize("Diagnostics.Close", "Hide diagnostics");
+    close.style.border = "none";
+    close.style.background = "transparent";
+    close.style.cursor = "pointer";
+    close.style.font = "600 12px Segoe UI";
+    close.style.color = "inherit";
+    close.addEventListener("click", (e) => {
+      e.stopPropagation();
+      this.diagnosticsDismissed = true;
+      this.renderDiagnostics();
+    });
+    header.appendChild(close);
+    panel.appendChild(header);
+
+    const addSection = (label: string, entries: string[]) => {
+      if (entries.length === 0) return;
+      const section = document.createElement("div");
+      section.style.marginTop = "4px";
+
+      const heading = document.createElement("div");
+      heading.style.font = "600 11px Segoe UI";
+      heading.textContent = `${label} (${entries.length})`;
+      section.appendChild(heading);
+
+      for (const entry of entries.slice(0, DIAGNOSTICS_LIST_LIMIT)) {
+        const line = document.createElement("div");
+        line.style.paddingLeft = "8px";
+        line.style.whiteSpace = "nowrap";
+        line.textContent = this.formatPathId(entry);
+        section.appendChild(line);
+      }
+      if (entries.length > DIAGNOSTICS_LIST_LIMIT) {
+        const more = document.createElement("div");
+        more.style.paddingLeft = "8px";
+        more.style.color = UI.subtext;
+        more.textContent = `+${entries.length - DIAGNOSTICS_LIST_LIMIT} ${this.localize("Diagnostics.More", "more")}`;
+        section.appendChild(more);
+      }
+      panel.appendChild(section);
+    };
+
+    const issues = this.hierarchyIssues;
+    addSection(this.localize("Diagnostics.Duplicates", "Duplicate IDs"), issues.duplicates);
+    // cycles are listed parent → child, closing back on the first id
+    addSection(
+      this.localize("Diagnostics.Cycles", "Cycles"),
+      issues.cycles.map(c => [...c].reverse().concat(c[c.length - 1]).join(" → "))
+    );
+    addSection(
+      this.localize("Diagnostics.Orphans", "Missing parents"),
+      issues.orphans.map(o => `${o.parentId} ← ${o.childIds.join(", ")}`)
+    );
+
+    // the benchmark blocks for dozens of full redraws, so it only runs when asked
+    if (this.settings.diagnostics.benchmark) {
+      const section = document.createElement("div");
+      section.style.marginTop = "4px";
+      const heading = document.createElement("div");
+      heading.style.display = "flex";
+      heading.style.alignItems = "center";
+      heading.style.gap = "6px";
+      heading.style.font = "600 11px Segoe UI";
+      heading.textContent = this.localize("Diagnostics.Benchmark", "Render benchmark");
+      const run = document.createElement("button");
+      run.type = "button";
+      run.textContent = this.localize("Benchmark.Run", "Run");
+      run.style.font = "600 11px Segoe UI";
+      run.style.cursor = "pointer";
+      run.addEventListener("click", (e) => {
+        e.stopPropagation();
+        this.benchmarkResult = this.runRenderBenchmark();
+        this.renderDiagnostics();
+      });
+      heading.appendChild(run);
+      section.appendChild(heading);
+      for (const entry of this.benchmarkResult ?? []) {
+        const line = document.createElement("div");
+        line.style.paddingLeft = "8px";
+        line.style.whiteSpace = "nowrap";
+        line.textContent = entry;
+        section.appendChild(line);
+      }
+      panel.appendChild(section);
+    }
+
+    panel.style.display = "block";
+  }
+
   private showLandingPage(show: boolean): void {
     if (!this.landingPage) return;
     this.landingPage.style.display = show ? "flex" : "none";
@@ -1212,7 +2687,7 @@ export class Visual implements IVisual {
   }
 
   private ensureFocus(): void {
-    const list = this.viewMode === "table" ? this.tableRows : this.nodes;
+    const list = this.getNavigableNodes();
     if (!list.length) {
       this.focusedNodeId = null;
       this.focusedIndex = 0;
@@ -1236,6 +2711,7 @@ export class Visual implements IVisual {
     this.viewGroup.style.display = controls.showViewToggle ? "flex" : "none";
     this.zoomGroup.style.display = controls.showZoom ? "flex" : "none";
     this.collapseGroup.style.display = controls.showCollapseExpand ? "flex" : "none";
+    this.minimapGroup.style.display = controls.showMinimapToggle ? "flex" : "none";
     this.toolbar.style.pointerEvents = this.allowInteractions ? "auto" : "none";
     this.toolbar.style.opacity = this.allowInteractions ? "1" : "0.6";
 
@@ -1269,6 +2745,48 @@ export class Visual implements IVisual {
     }
   }
 
+  /** Name, query name and card visibility of each Values column, in field order */
+  private getMeasureEntries(
+    values: powerbi.DataViewValueColumns | undefined
+  ): Array<{ displayName: string; queryName: string; showOnCard: boolean }> {
+    return (values?.filter(v => v.source.roles?.["values"]) ?? []).map(c => ({
+      displayName: c.source?.displayName ?? this.localize("Table.Header.Value", "Value"),
+      queryName: c.source?.queryName ?? c.source?.displayName ?? "",
+      showOnCard: getMeasureSettings(c.source).showOnCard
+    }));
+  }
+
+  private setLoadStatus(state: "idle" | "loading" | "truncated", rows: number): void {
+    if (!this.loadGroup) return;
+    const count = rows.toLocaleString(this.host.locale);
+    this.loadGroup.style.display = state === "idle" ? "none" : "flex";
+    this.stopLoadButton.style.display = state === "loading" ? "inline-block" : "none";
+
+    if (state === "loading") {
+      this.loadLabel.textContent = this.localize("Toolbar.LoadingRows", "Loading {0} rows…").replace("{0}", count);
+      this.loadLabel.title = "";
+    } else if (state === "truncated") {
+      // stopped by the user before the row limit: raising Max rows would not help
+      const msg = this.loadingStopped && rows < this.settings.input.maxRows
+        ? this.localize("Message.RowsStopped", "Loading was stopped after {0} rows.").replace("{0}", count)
+        : this.localize(
+          "Message.RowLimit",
+          "Only the first {0} rows are loaded. Raise Max rows under Hierarchy input to load more."
+        ).replace("{0}", count);
+      this.loadLabel.textContent = this.localize("Toolbar.RowLimit", "First {0} rows").replace("{0}", count);
+      this.loadLabel.title = msg;
+      if (msg !== this.loadWarning) this.host.displayWarningIcon?.(msg, msg);
+    }
+    this.loadWarning = state === "truncated" ? this.loadLabel.title : null;
+  }
+
+  /** Stops requesting segments and lays out what has been loaded so far. */
+  private stopLoading(): void {
+    this.loadingStopped = true;
+    const pending = this.pendingUpdate;
+    if (pending) this.update(pending);
+  }
+
   private syncToolbarState(): void {
     if (!this.toolbar) return;
     this.updateZoomLabel();
@@ -1278,16 +2796,24 @@ export class Visual implements IVisual {
 
     this.treeButton.style.background = this.viewMode === "tree" ? activeBg : inactiveBg;
     this.tableButton.style.background = this.viewMode === "table" ? activeBg : inactiveBg;
+    this.treemapButton.style.background = this.viewMode === "treemap" ? activeBg : inactiveBg;
+    this.icicleButton.style.background = this.viewMode === "icicle" ? activeBg : inactiveBg;
+    this.minimapButton.style.background = this.minimapVisible ? activeBg : inactiveBg;
+    this.minimapButton.setAttribute("aria-pressed", String(this.minimapVisible));
 
-    if (this.viewMode === "table") {
+    // treemap / icicle zoom by clicking into a subtree, not with the zoom control
+    if (this.viewMode !== "tree") {
       this.zoomGroup.style.display = "none";
+      this.minimapGroup.style.display = "none";
     } else {
       this.zoomGroup.style.display = this.settings.controls.showZoom ? "flex" : "none";
+      this.minimapGroup.style.display = this.settings.controls.showMinimapToggle ? "flex" : "none";
     }
   }
 
   private setViewMode(mode: ViewMode, fromUser = false): void {
     if (this.viewMode === mode) return;
+    this.finishTransition();
     this.viewMode = mode;
     if (fromUser) this.userSetView = true;
     this.hoveredId = null;
@@ -1298,6 +2824,7 @@ export class Visual implements IVisual {
 
   private zoomBy(factor: number): void {
     if (this.viewMode !== "tree") return;
+    this.finishTransition();
     const prev = this.scale;
     const next = Math.min(4, Math.max(0.2, this.scale * factor));
 
@@ -1319,16 +2846,251 @@ export class Visual implements IVisual {
   private collapseAll(): void {
     this.collapsedIds.clear();
     for (const [parentId] of this.childrenMap) this.collapsedIds.add(parentId);
+    this.saveExpansionState();
+    const before = this.snapshotLayout();
     this.computeLayoutFromState();
+    this.beginTransition(before);
     this.renderView();
   }
 
   private expandAll(): void {
     this.collapsedIds.clear();
+    this.saveExpansionState();
+    const before = this.snapshotLayout();
     this.computeLayoutFromState();
+    this.beginTransition(before);
     this.renderView();
   }
 
+  /**
+   * Sets collapsedIds from the report on each update: the saved state when there is one, otherwise
+   * the Expand to level default. Nothing changes while both stay the same, so in-session collapsing
+   * survives unrelated updates; a new level replaces the saved state. Returns true when the update
+   * only echoes one of our own saves, which is ignored: later toggles may already have moved on.
+   */
+  private applyExpansionState(saved: string[] | null): boolean {
+    const level = this.settings.controls.expandLevel;
+    const savedJson = saved ? JSON.stringify(saved) : null;
+    const levelChanged = this.expansionLevel !== null && level !== this.expansionLevel;
+
+    // the host may coalesce updates, so an echo also retires every earlier pending save
+    const pending = levelChanged ? -1 : this.pendingExpansionSaves.indexOf(savedJson ?? "");
+    if (pending >= 0) {
+      this.pendingExpansionSaves.splice(0, pending + 1);
+      return true;
+    }
+
+    if (levelChanged) {
+      this.collapseToLevel(level);
+      if (saved) this.clearExpansionState();
+    } else if (this.expansionLevel === null || (savedJson !== this.expansionSaved && this.pendingExpansionSaves.length === 0)) {
+      // while saves are in flight, an update still carrying the older state is not a new state
+      if (saved) this.collapsedIds = new Set(saved);
+      else this.collapseToLevel(level);
+      this.expansionSaved = savedJson;
+    }
+    this.expansionLevel = level;
+    return false;
+  }
+
+  /** Collapses every parent below the given level (roots are level 1); 0 expands everything */
+  private collapseToLevel(level: number): void {
+    this.collapsedIds.clear();
+    if (level <= 0) return;
+
+    const ids = new Set(this.allRows.map(r => r.id));
+    let depth = 1;
+    let frontier = this.allRows.filter(r => !r.parentId || !ids.has(r.parentId)).map(r => r.id);
+    const seen = new Set(frontier);
+    while (frontier.length) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const children = this.childrenMap.get(id) ?? [];
+        if (children.length && depth >= level) this.collapsedIds.add(id);
+        for (const c of children) {
+          if (seen.has(c)) continue;
+          seen.add(c);
+          next.push(c);
+        }
+      }
+      frontier = next;
+      depth++;
+    }
+  }
+
+  /** Saves collapsedIds with the report (hidden "expansion" object) so readers open the same state */
+  private saveExpansionState(): void {
+    const json = JSON.stringify(Array.from(this.collapsedIds).sort());
+    this.expansionSaved = json;
+    this.pendingExpansionSaves.push(json);
+    this.host.persistProperties({
+      merge: [{ objectName: "expansion", selector: null, properties: { collapsed: json } }]
+    });
+  }
+
+  private clearExpansionState(): void {
+    this.expansionSaved = null;
+    this.pendingExpansionSaves.push("");
+    this.host.persistProperties({
+      remove: [{ objectName: "expansion", selector: null, properties: { collapsed: null } }]
+    });
+  }
+
+  // ---------------------------
+  // Transitions
+  // ---------------------------
+  /** Jump straight to the new layout when disabled, in the table or when the OS asks for reduced motion */
+  private shouldAnimate(): boolean {
+    const a = this.settings.animation;
+    if (!a.show || a.duration <= 0 || this.viewMode !== "tree") return false;
+    return !window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+  }
+
+  /** Call before recomputing the layout; a transition in flight is settled but restarts from where it was */
+  private snapshotLayout(): LayoutSnapshot | null {
+    const running = this.transition;
+    const drawn = running ? this.nodes.filter(n => !running.ghosts.has(n)) : this.nodes;
+    const frames = new Map(drawn.map(n => [n.id, this.getNodeFrame(n)]));
+    const view = { tx: this.tx, ty: this.ty, scale: this.scale };
+    this.finishTransition();
+    if (!this.shouldAnimate() || frames.size === 0) return null;
+    return { frames, nodes: this.nodes, links: this.links, view };
+  }
+
+  /** Call after recomputing the layout: tweens nodes, links and the view from the snapshot to the new state */
+  private beginTransition(before: LayoutSnapshot | null): void {
+    if (!before || this.nodes.length === 0 || !this.shouldAnimate()) return;
+
+    const current = new Map(this.nodes.map(n => [n.id, n]));
+    const newParents = new Map(this.links.map(l => [l.target.id, l.source.id]));
+    const oldParents = new Map(before.links.map(l => [l.target.id, l.source.id]));
+    const findAnchor = (id: string, parents: Map<string, string>, has: (id: string) => boolean): string | null => {
+      let p = parents.get(id);
+      while (p !== undefined && !has(p)) p = parents.get(p);
+      return p ?? null;
+    };
+
+    // entering nodes grow out of their nearest previously drawn ancestor
+    const tweens: NodeTween[] = [];
+    for (const n of this.nodes) {
+      const to = this.getNodeFrame(n);
+      const prev = before.frames.get(n.id);
+      if (prev) {
+        tweens.push({ node: n, from: prev, to, fromPresence: 1, toPresence: 1 });
+        continue;
+      }
+      const anchor = findAnchor(n.id, newParents, id => before.frames.has(id));
+      tweens.push({ node: n, from: anchor ? before.frames.get(anchor)! : to, to, fromPresence: 0, toPresence: 1 });
+    }
+
+    // exiting nodes fold back into their nearest ancestor that is still drawn
+    const ghosts = new Map<string, LayoutNode>();
+    for (const old of before.nodes) {
+      if (current.has(old.id)) continue;
+      const from = before.frames.get(old.id);
+      if (!from) continue;
+      const anchor = findAnchor(old.id, oldParents, id => current.has(id));
+      const ghost: LayoutNode = { ...old };
+      ghosts.set(old.id, ghost);
+      tweens.push({
+        node: ghost,
+        from,
+        to: anchor ? this.getNodeFrame(current.get(anchor)!) : from,
+        fromPresence: 1,
+        toPresence: 0
+      });
+    }
+    const ghostLinks = before.links
+      .filter(l => ghosts.has(l.target.id))
+      .map(l => ({
+        source: current.get(l.source.id) ?? ghosts.get(l.source.id) ?? l.source,
+        target: ghosts.get(l.target.id)!
+      }));
+
+    const to = { tx: this.tx, ty: this.ty, scale: this.scale };
+    const from = before.view;
+    const moved = ghosts.size > 0
+      || from.tx !== to.tx || from.ty !== to.ty || from.scale !== to.scale
+      || tweens.some(t => t.fromPresence !== t.toPresence || t.from.x !== t.to.x || t.from.y !== t.to.y);
+    if (!moved) return;
+
+    const a = this.settings.animation;
+    this.transition = {
+      start: performance.now(),
+      duration: a.duration,
+      ease: EASINGS[a.easing],
+      tweens,
+      ghosts: new Set(ghosts.values()),
+      from,
+      to,
+      frameId: 0
+    };
+    // ghosts go first so the surviving cards draw over them
+    this.nodes = [...ghosts.values(), ...this.nodes];
+    this.links = [...ghostLinks, ...this.links];
+    this.applyTransition(0);
+    this.transition.frameId = requestAnimationFrame(() => this.stepTransition());
+  }
+
+  private getNodeFrame(n: LayoutNode): NodeFrame {
+    return { x: n.x, y: n.y, rotation: n.rotation ?? 0, polar: n.polar ? { ...n.polar } : undefined };
+  }
+
+  private applyTransition(t: number): void {
+    const tr = this.transition;
+    if (!tr) return;
+    const k = tr.ease(t);
+    const lerp = (a: number, b: number) => a + (b - a) * k;
+
+    for (const { node, from, to, fromPresence, toPresence } of tr.tweens) {
+      if (from.polar && to.polar) {
+        // radial: move along rings and rays so links keep their shape
+        const angle = lerp(from.polar.angle, to.polar.angle);
+        const radius = lerp(from.polar.radius, to.polar.radius);
+        node.polar = { angle, radius };
+        node.x = radius * Math.cos(angle - Math.PI / 2);
+        node.y = radius * Math.sin(angle - Math.PI / 2);
+      } else {
+        node.polar = t >= 1 ? to.polar : undefined;
+        node.x = lerp(from.x, to.x);
+        node.y = lerp(from.y, to.y);
+      }
+      node.rotation = lerp(from.rotation, to.rotation);
+      const presence = lerp(fromPresence, toPresence);
+      node.presence = presence < 1 ? Math.max(0, presence) : undefined;
+    }
+
+    this.tx = lerp(tr.from.tx, tr.to.tx);
+    this.ty = lerp(tr.from.ty, tr.to.ty);
+    this.scale = lerp(tr.from.scale, tr.to.scale);
+  }
+
+  private stepTransition(): void {
+    const tr = this.transition;
+    if (!tr) return;
+    const t = Math.min(1, (performance.now() - tr.start) / tr.duration);
+    if (t >= 1) {
+      this.finishTransition();
+    } else {
+      this.applyTransition(t);
+      tr.frameId = requestAnimationFrame(() => this.stepTransition());
+    }
+    this.updateZoomLabel();
+    if (this.viewMode === "tree") this.renderTree(this.lastViewportW, this.lastViewportH);
+  }
+
+  /** Snap a running transition to its end state and drop the folded-away nodes */
+  private finishTransition(): void {
+    const tr = this.transition;
+    if (!tr) return;
+    cancelAnimationFrame(tr.frameId);
+    this.applyTransition(1);
+    this.transition = null;
+    this.nodes = this.nodes.filter(n => !tr.ghosts.has(n));
+    this.links = this.links.filter(l => !tr.ghosts.has(l.target));
+    this.updateZoomLabel();
+  }
+
   // ---------------------------
   // Rendering
   // ---------------------------
@@ -1344,80 +3106,436 @@ export class Visual implements IVisual {
 
     this.tableContainer.style.display = "none";
     this.canvas.style.display = "block";
+    if (this.isPartitionView()) {
+      this.computePartitionLayout();
+      this.ensureFocus();
+      this.drawPartition();
+      return;
+    }
     this.renderTree(this.lastViewportW, this.lastViewportH);
   }
 
-  private setSearchQuery(value: string): void {
-    const trimmed = value.trim();
-    if (this.searchQuery === trimmed) return;
-    this.searchQuery = trimmed;
-    this.clearMessage();
-    this.hideTooltip();
-    this.computeLayoutFromState(true);
-    this.ensureFocus();
-    this.renderView();
+  /** Redraw the canvas view as laid out (hover, selection, focus changes) */
+  private renderCanvas(): void {
+    if (this.isPartitionView()) this.drawPartition();
+    else this.renderTree(this.lastViewportW, this.lastViewportH);
   }
 
-  private setHierarchyFilter(value: string): void {
-    const next = value || null;
-    if (this.hierarchyFilterValue === next) return;
-    this.hierarchyFilterValue = next;
-    this.clearMessage();
-    this.hideTooltip();
-    this.computeLayoutFromState(true);
-    this.ensureFocus();
-    this.renderView();
+  /** Coalesce interactive redraws (hover, pan, wheel, image loads) into one per animation frame */
+  private requestRender(): void {
+    if (this.renderFrameId) return;
+    this.renderFrameId = requestAnimationFrame(() => {
+      this.renderFrameId = 0;
+      if (this.viewMode !== "table") this.renderCanvas();
+    });
   }
 
-  private setParentFilter(value: string): void {
-    const next = value || null;
-    if (this.parentFilterValue === next) return;
-    this.parentFilterValue = next;
-    this.clearMessage();
-    this.hideTooltip();
-    this.computeLayoutFromState(true);
-    this.ensureFocus();
-    this.renderView();
+  /**
+   * Diagnostics benchmark: pans diagonally across the tree drawing every card, then again with
+   * culling, and compares hit-testing by linear scan and by the grid on the same points.
+   */
+  private runRenderBenchmark(): string[] | null {
+    // positions are mid-flight during a transition and the passes would fight its frames
+    if (this.viewMode !== "tree" || this.nodes.length === 0 || this.transition) return null;
+    const width = this.lastViewportW;
+    const height = this.lastViewportH;
+    const saved = { tx: this.tx, ty: this.ty };
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const n of this.nodes) {
+      minX = Math.min(minX, n.x);
+      minY = Math.min(minY, n.y);
+      maxX = Math.max(maxX, n.x);
+      maxY = Math.max(maxY, n.y);
+    }
+    const timeFrames = (cull: boolean): number[] => {
+      this.cullingEnabled = cull;
+      const times: number[] = [];
+      for (let i = 0; i < BENCHMARK_FRAMES; i++) {
+        const t = i / (BENCHMARK_FRAMES - 1);
+        this.tx = width / 2 - (minX + (maxX - minX) * t) * this.scale;
+        this.ty = height / 2 - (minY + (maxY - minY) * t) * this.scale;
+        const start = performance.now();
+        this.renderTree(width, height);
+        times.push(performance.now() - start);
+      }
+      return times;
+    };
+
+    let full: number[];
+    let culled: number[];
+    let linearHit: number;
+    let gridHit: number;
+    try {
+      full = timeFrames(false);
+      // every card has a rect after an unculled draw: probe the same points both ways
+      const probes = this.nodeRects
+        .filter((_, i) => i % Math.max(1, Math.floor(this.nodeRects.length / 500)) === 0)
+        .map(r => ({ x: r.x + r.w / 2, y: r.y + r.h / 2 }));
+      const everyRect = this.nodeRects.map((_, i) => i);
+      const timeHits = (lookup: (x: number, y: number) => number[]): number => {
+        const start = performance.now();
+        for (const p of probes) this.hitNodeRects(p.x, p.y, lookup(p.x, p.y));
+        return ((performance.now() - start) * 1000) / Math.max(1, probes.length);
+      };
+      linearHit = timeHits(() => everyRect);
+      gridHit = timeHits((x, y) => this.nodeIndex.query(x, y));
+      culled = timeFrames(true);
+    } finally {
+      this.cullingEnabled = true;
+      this.tx = saved.tx;
+      this.ty = saved.ty;
+      this.renderTree(width, height);
+    }
+
+    const stats = (times: number[]) => {
+      const sorted = [...times].sort((a, b) => a - b);
+      const mean = times.reduce((sum, t) => sum + t, 0) / times.length;
+      const p95 = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))];
+      return `mean ${mean.toFixed(2)} ms, p95 ${p95.toFixed(2)} ms`;
+    };
+    return [
+      this.localize("Benchmark.Summary", "{0} nodes, {1} frames at {2}% zoom")
+        .replace("{0}", String(this.nodes.length))
+        .replace("{1}", String(BENCHMARK_FRAMES))
+        .replace("{2}", String(Math.round(this.scale * 100))),
+      `${this.localize("Benchmark.Full", "Full redraw")}: ${stats(full)}`,
+      `${this.localize("Benchmark.Culled", "Culled redraw")}: ${stats(culled)}`,
+      `${this.localize("Benchmark.HitLinear", "Hit test, linear scan")}: ${linearHit.toFixed(1)} µs`,
+      `${this.localize("Benchmark.HitGrid", "Hit test, grid index")}: ${gridHit.toFixed(1)} µs`
+    ];
   }
 
-  private setDropdownFilter(value: string): void {
-    const next = value || null;
-    if (this.dropdownFilterValue === next) return;
-    this.dropdownFilterValue = next;
-    this.clearMessage();
-    this.hideTooltip();
-    this.computeLayoutFromState(true);
-    this.ensureFocus();
-    this.renderView();
+  private isPartitionView(): boolean {
+    return this.viewMode === "treemap" || this.viewMode === "icicle";
   }
 
-  private clearElement(el: HTMLElement): void {
-    while (el.firstChild) {
-      el.removeChild(el.firstChild);
+  /**
+   * Treemap / icicle cells for the filtered rows. Collapse state is ignored: the views
+   * zoom into a subtree instead, so the zoomed node fills the viewport.
+   */
+  private computePartitionLayout(): void {
+    this.partitionCells = [];
+    const rows = this.applyViewFilters(this.allRows);
+    const width = this.lastViewportW;
+    const height = this.lastViewportH;
+    if (rows.length === 0 || width <= 0 || height <= 0) return;
+
+    const ids = new Set(rows.map(r => r.id));
+    const kids = new Map<string | null, NodeRow[]>();
+    for (const r of rows) {
+      const parentId = r.parentId && ids.has(r.parentId) ? r.parentId : null;
+      const list = kids.get(parentId);
+      if (list) list.push(r);
+      else kids.set(parentId, [r]);
+    }
+    const roots = kids.get(null) ?? [];
+    if (roots.length === 0) return;
+    const synthetic = roots.length !== 1;
+    const top: NodeRow = synthetic
+      ? { id: SYNTHETIC_ROOT_ID, parentId: null, label: "All", selectionId: this.host.createSelectionIdBuilder().createSelectionId() }
+      : roots[0];
+    const full = hierarchy<NodeRow>(top, d => (synthetic && d === top ? roots : kids.get(d.id)));
+
+    // leaves carry the first measure; every node counts once when sizing by count (or nothing is positive)
+    const sizeByValue = this.settings.partition.sizeBy === "value" && this.measureColumns.length > 0;
+    if (sizeByValue) {
+      full.sum(d => {
+        if (d === top || kids.has(d.id)) return 0;
+        const v = d.values?.[0];
+        return typeof v === "number" && v > 0 ? v : 0;
+      });
+    }
+    if (!sizeByValue || !((full.value ?? 0) > 0)) full.sum(() => 1);
+    full.sort((a, b) => (b.value ?? 0) - (a.value ?? 0));
+
+    // colours follow the top-level branch so they stay put while zooming
+    const branchColor = new Map<string, string>();
+    const palette = this.host.colorPalette;
+    for (const branch of full.children ?? [full]) {
+      const color = palette.getColor(branch.data.id).value;
+      branch.each(n => branchColor.set(n.data.id, color));
+    }
+    branchColor.set(top.id, palette.getColor(top.id).value);
+
+    let zoomed = full;
+    if (this.partitionZoomId) {
+      const found = full.descendants().find(n => n.data.id === this.partitionZoomId);
+      if (found?.children) zoomed = found;
+      else this.partitionZoomId = null;
+    }
+    const root = zoomed.copy();
+
+    const pad = 4;
+    const topInset = this.settings.controls.showControls ? Math.max(pad, this.toolbar.offsetHeight + 12) : pad;
+    const areaW = width - pad * 2;
+    const areaH = height - topInset - pad;
+    if (areaW <= 0 || areaH <= 0) return;
+
+    const padding = this.settings.partition.padding;
+    const vertical = this.settings.layout.orientation !== "LR" && this.settings.layout.orientation !== "RL";
+    let laidOut: HierarchyRectangularNode<NodeRow>;
+    if (this.viewMode === "treemap") {
+      laidOut = treemap<NodeRow>()
+        .size([areaW, areaH])
+        .paddingInner(padding)
+        .paddingOuter(padding)
+        .paddingTop(n => (n.children ? PARTITION_HEADER_HEIGHT : padding))
+        .round(true)(root);
+    } else {
+      // icicle: one band per level, along the layout's flow direction
+      laidOut = partition<NodeRow>()
+        .size(vertical ? [areaW, areaH] : [areaH, areaW])
+        .padding(padding)(root);
     }
+
+    const cardHeight = this.getCardHeight();
+    const depthOffset = zoomed.depth - (synthetic ? 1 : 0);
+    laidOut.each(n => {
+      const swap = this.viewMode === "icicle" && !vertical;
+      const x = pad + (swap ? n.y0 : n.x0);
+      const y = topInset + (swap ? n.x0 : n.y0);
+      const w = swap ? n.y1 - n.y0 : n.x1 - n.x0;
+      const h = swap ? n.x1 - n.x0 : n.y1 - n.y0;
+      if (w < 1 || h < 1) return;
+      const node = this.toLayoutNode(n.data, cardHeight);
+      node.depth = n.depth + depthOffset;
+      const cell: PartitionCell = {
+        node,
+        x,
+        y,
+        w,
+        h,
+        value: n.value ?? 0,
+        color: branchColor.get(n.data.id) ?? UI.accent,
+        hasChildren: Boolean(n.children)
+      };
+      if (n.depth === 0 && zoomed.parent) cell.zoomOutId = zoomed.parent === full && synthetic ? null : zoomed.parent.data.id;
+      this.partitionCells.push(cell);
+    });
   }
 
-  private renderTable(): void {
-    const tableSettings = this.settings.table;
+  /** Zoom into a subtree, or back out when the zoomed node itself is clicked; false when nothing changed */
+  private zoomPartition(nodeId: string): boolean {
+    const cell = this.partitionCells.find(c => c.node.id === nodeId);
+    if (!cell) return false;
+    if (cell.zoomOutId !== undefined) this.partitionZoomId = cell.zoomOutId;
+    else if (cell.hasChildren && cell !== this.partitionCells[0]) this.partitionZoomId = nodeId;
+    else return false;
+
+    this.hoveredId = null;
+    this.hideTooltip();
+    this.computePartitionLayout();
+    this.ensureFocus();
+    this.drawPartition();
+    return true;
+  }
+
+  private drawPartition(): void {
+    const ctx = this.ctx;
+    const width = this.lastViewportW;
+    const height = this.lastViewportH;
     const appearance = this.settings.appearance;
     const nodes = this.settings.nodes;
+    const levels = this.settings.levels;
+    const isTreemap = this.viewMode === "treemap";
+
     const palette = (this.host as any).colorPalette as powerbi.extensibility.ISandboxExtendedColorPalette | undefined;
     const accent = palette?.getColor?.("HierarchyFlowAccent")?.value ?? UI.accent;
     const isHighContrast = palette?.isHighContrast === true;
     const hcForeground = palette?.foreground?.value;
     const hcBackground = palette?.background?.value;
-    const tableBackground = isHighContrast
+    const background = isHighContrast
       ? (hcBackground || UI.bg)
-      : (appearance.useBackground ? appearance.backgroundColor : "transparent");
-    const tableText = isHighContrast ? (hcForeground || UI.title) : (nodes.titleColor || UI.title);
-    const headerBg = isHighContrast ? (hcBackground || "#ffffff") : (appearance.useBackground ? appearance.backgroundColor : "#ffffff");
-    const headerBorder = isHighContrast ? (hcForeground || "#e5e7eb") : "#e5e7eb";
-    const rowBorder = isHighContrast ? (hcForeground || "#e5e7eb") : "#f3f4f6";
-    const valueText = isHighContrast ? (hcForeground || nodes.valueColor) : (nodes.valueColor || UI.subtext);
-    const titleSpec = this.getTitleFontSpec();
+      : (appearance.useBackground ? (appearance.backgroundColor || UI.bg) : UI.bg);
 
-    this.tableContainer.style.background = tableBackground;
-    this.tableContainer.style.color = tableText;
+    ctx.clearRect(0, 0, width, height);
+    if (isHighContrast || appearance.useBackground) {
+      ctx.fillStyle = background;
+      ctx.fillRect(0, 0, width, height);
+    }
+
+    // the tree's hit rects and minimap do not apply here
+    this.minimapFrame = null;
+    this.nodeRects = [];
+    this.toggleRects = [];
+    this.linkRects = [];
+
+    const sizeByValue = this.settings.partition.sizeBy === "value" && this.measureColumns.length > 0;
+    const formatter = sizeByValue ? this.measureColumns[0].formatters.card : undefined;
+    const showValues = this.settings.partition.showValues;
+    const titleSpec = this.getTitleFontSpec();
+
+    this.partitionCells.forEach((c, i) => {
+      const n = c.node;
+      const isRoot = i === 0;
+      // treemap parents are frames around their children: tint them and keep the header readable
+      const isFrame = isTreemap && c.hasChildren;
+      const isHovered = this.hoveredId === n.id;
+      const isSelected = this.selectedIds.has(n.id);
+      const fill = isHighContrast
+        ? (hcBackground || UI.bg)
+        : n.colors?.fill ?? (levels.enable ? (levels.levelColors[n.depth % levels.levelColors.length] || c.color) : c.color);
+
+      ctx.save();
+      ctx.globalAlpha = isFrame ? 0.25 : 0.9;
+      ctx.fillStyle = fill;
+      ctx.fillRect(c.x, c.y, c.w, c.h);
+      ctx.restore();
+
+      ctx.lineWidth = isSelected ? 2 : 1;
+      ctx.strokeStyle = isSelected
+        ? accent
+        : (isHovered ? (isHighContrast ? (hcForeground || UI.title) : UI.title) : (isHighContrast ? (hcForeground || UI.title) : background));
+      ctx.strokeRect(c.x + 0.5, c.y + 0.5, Math.max(0, c.w - 1), Math.max(0, c.h - 1));
+
+      if (this.focusedNodeId === n.id) {
+        ctx.save();
+        ctx.strokeStyle = isHighContrast ? (hcForeground || UI.title) : UI.title;
+        ctx.setLineDash([3, 2]);
+        ctx.strokeRect(c.x + 2.5, c.y + 2.5, Math.max(0, c.w - 5), Math.max(0, c.h - 5));
+        ctx.restore();
+      }
+
+      // labels: the zoomed node shows its path and a hint that clicking it zooms out
+      const textW = c.w - 8;
+      if (textW < 12 || c.h < 12) return;
+      const textColor = isHighContrast
+        ? (hcForeground || UI.title)
+        : n.colors?.title ?? (isFrame ? (nodes.titleColor || UI.title) : this.getReadableTextColor(fill));
+      let title = n.label;
+      if (isRoot && c.zoomOutId !== undefined) {
+        const path = this.getPartitionPath(n.id);
+        title = `${path} — ${this.localize("Partition.ZoomOut", "Click to zoom out")}`;
+      }
+      const valueText = showValues ? this.formatValue(c.value, formatter) : "";
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.rect(c.x, c.y, c.w, c.h);
+      ctx.clip();
+      ctx.fillStyle = textColor;
+      ctx.textAlign = "left";
+      ctx.textBaseline = "top";
+      ctx.font = titleSpec.font;
+      const header = isFrame ? `${title}${valueText ? `  ${valueText}` : ""}` : title;
+      this.drawSingleLineText(ctx, header, c.x + 4, c.y + 3, textW);
+      if (!isFrame && valueText && c.h >= titleSpec.lineHeight + 18) {
+        ctx.font = FONT.value;
+        this.drawSingleLineText(ctx, valueText, c.x + 4, c.y + 5 + titleSpec.lineHeight, textW);
+      }
+      ctx.restore();
+    });
+  }
+
+  /** Labels from the top of the hierarchy down to the node, for the zoomed header */
+  private getPartitionPath(nodeId: string): string {
+    const byId = new Map(this.allRows.map(r => [r.id, r]));
+    const labels: string[] = [];
+    const seen = new Set<string>();
+    let current = byId.get(nodeId);
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      labels.unshift(current.label);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+    return labels.join(PATH_DISPLAY_SEPARATOR);
+  }
+
+  /** Path IDs (and text built from them) as shown to the user */
+  private formatPathId(text: string): string {
+    return text.split(PATH_ID_SEPARATOR).join(PATH_DISPLAY_SEPARATOR);
+  }
+
+  /** Dark or light text, whichever reads better on a #rrggbb fill */
+  private getReadableTextColor(fill: string): string {
+    const m = /^#?([0-9a-f]{6})$/i.exec(fill.trim());
+    if (!m) return UI.title;
+    const v = parseInt(m[1], 16);
+    const luminance = (0.299 * ((v >> 16) & 255) + 0.587 * ((v >> 8) & 255) + 0.114 * (v & 255)) / 255;
+    return luminance > 0.6 ? UI.title : "#ffffff";
+  }
+
+  private setSearchQuery(value: string): void {
+    const trimmed = value.trim();
+    if (this.searchQuery === trimmed) return;
+    this.searchQuery = trimmed;
+    this.clearMessage();
+    this.hideTooltip();
+    const before = this.snapshotLayout();
+    this.computeLayoutFromState(true);
+    this.ensureFocus();
+    this.beginTransition(before);
+    this.renderView();
+  }
+
+  private setHierarchyFilter(value: string): void {
+    const next = value || null;
+    if (this.hierarchyFilterValue === next) return;
+    this.hierarchyFilterValue = next;
+    this.clearMessage();
+    this.hideTooltip();
+    const before = this.snapshotLayout();
+    this.computeLayoutFromState(true);
+    this.ensureFocus();
+    this.beginTransition(before);
+    this.renderView();
+  }
+
+  private setParentFilter(value: string): void {
+    const next = value || null;
+    if (this.parentFilterValue === next) return;
+    this.parentFilterValue = next;
+    this.clearMessage();
+    this.hideTooltip();
+    const before = this.snapshotLayout();
+    this.computeLayoutFromState(true);
+    this.ensureFocus();
+    this.beginTransition(before);
+    this.renderView();
+  }
+
+  private setDropdownFilter(value: string): void {
+    const next = value || null;
+    if (this.dropdownFilterValue === next) return;
+    this.dropdownFilterValue = next;
+    this.clearMessage();
+    this.hideTooltip();
+    const before = this.snapshotLayout();
+    this.computeLayoutFromState(true);
+    this.ensureFocus();
+    this.beginTransition(before);
+    this.renderView();
+  }
+
+  private clearElement(el: HTMLElement): void {
+    while (el.firstChild) {
+      el.removeChild(el.firstChild);
+    }
+  }
+
+  private renderTable(): void {
+    const tableSettings = this.settings.table;
+    const appearance = this.settings.appearance;
+    const nodes = this.settings.nodes;
+    const palette = (this.host as any).colorPalette as powerbi.extensibility.ISandboxExtendedColorPalette | undefined;
+    const accent = palette?.getColor?.("HierarchyFlowAccent")?.value ?? UI.accent;
+    const isHighContrast = palette?.isHighContrast === true;
+    const hcForeground = palette?.foreground?.value;
+    const hcBackground = palette?.background?.value;
+    const tableBackground = isHighContrast
+      ? (hcBackground || UI.bg)
+      : (appearance.useBackground ? appearance.backgroundColor : "transparent");
+    const tableText = isHighContrast ? (hcForeground || UI.title) : (nodes.titleColor || UI.title);
+    const headerBg = isHighContrast ? (hcBackground || "#ffffff") : (appearance.useBackground ? appearance.backgroundColor : "#ffffff");
+    const headerBorder = isHighContrast ? (hcForeground || "#e5e7eb") : "#e5e7eb";
+    const rowBorder = isHighContrast ? (hcForeground || "#e5e7eb") : "#f3f4f6";
+    const valueText = isHighContrast ? (hcForeground || nodes.valueColor) : (nodes.valueColor || UI.subtext);
+    const titleSpec = this.getTitleFontSpec();
+
+    this.tableContainer.style.background = tableBackground;
+    this.tableContainer.style.color = tableText;
+    this.tableContainer.dir = this.settings.layout.orientation === "RL" ? "rtl" : "ltr";
 
     this.tableEl.style.width = "100%";
     this.tableEl.style.borderCollapse = "collapse";
@@ -1428,7 +3546,16 @@ export class Visual implements IVisual {
       const headerRow = document.createElement("tr");
       const headers = [
         this.labelDisplayName || this.localize("Table.Header.Fields", "Fields"),
-        this.valueDisplayName || this.localize("Table.Header.Value", "Value"),
+        ...this.measureColumns.map(m => m.displayName),
+        ...(this.isCountRollup() ? [this.getRollupLabel()] : []),
+        ...(this.showKpi()
+          ? [
+            this.targetColumn!.displayName,
+            this.localize("KPI.Variance", "Variance"),
+            this.localize("KPI.VariancePercent", "Variance %")
+          ]
+          : []),
+        ...(this.linkValueColumn ? [this.linkValueColumn.displayName] : []),
         this.sparklineDisplayName || this.localize("Table.Header.Sparkline", "Sparkline")
       ];
 
@@ -1464,6 +3591,8 @@ export class Visual implements IVisual {
         } else {
           tr.style.background = UI.accentSoft;
         }
+      } else if (!isHighContrast && row.colors?.fill) {
+        tr.style.background = row.colors.fill;
       } else if (!isHighContrast && tableSettings.zebra && i % 2 === 1) {
         tr.style.background = "#f9fafb";
       }
@@ -1478,13 +3607,13 @@ export class Visual implements IVisual {
       nameCell.style.height = `${rowHeight}px`;
       nameCell.style.borderBottom = `1px solid ${rowBorder}`;
       nameCell.style.font = titleSpec.font;
-      nameCell.style.textAlign = nodes.titleAlign;
+      nameCell.style.textAlign = nodes.titleAlign === "left" ? "start" : nodes.titleAlign === "right" ? "end" : "center";
       nameCell.style.whiteSpace = nodes.titleWrap ? "normal" : "nowrap";
       nameCell.style.overflow = "hidden";
       nameCell.style.textOverflow = nodes.titleWrap ? "clip" : "ellipsis";
 
       const indent = 8 + Math.max(0, row.depth) * 14;
-      nameCell.style.paddingLeft = `${indent}px`;
+      nameCell.style.paddingInlineStart = `${indent}px`;
 
       const hasChildren = (this.childrenMap.get(row.id)?.length ?? 0) > 0;
       if (hasChildren) {
@@ -1495,7 +3624,7 @@ export class Visual implements IVisual {
         toggle.style.height = "14px";
         toggle.style.lineHeight = "14px";
         toggle.style.textAlign = "center";
-        toggle.style.marginRight = "6px";
+        toggle.style.marginInlineEnd = "6px";
         toggle.style.border = `1px solid ${isHighContrast ? (hcForeground || "#d1d5db") : "#d1d5db"}`;
         toggle.style.borderRadius = "3px";
         toggle.style.cursor = "pointer";
@@ -1513,22 +3642,108 @@ export class Visual implements IVisual {
 
       const nameText = document.createElement("span");
       nameText.textContent = row.label;
+      if (!isHighContrast && !isSelected && row.colors?.title) nameText.style.color = row.colors.title;
+      if (!isHighContrast && row.colors?.stroke) {
+        nameCell.style.boxShadow = `inset 3px 0 0 ${row.colors.stroke}`;
+      }
       nameCell.appendChild(nameText);
 
-      const valueCell = document.createElement("td");
-      valueCell.style.padding = "0 8px";
-      valueCell.style.height = `${rowHeight}px`;
-      valueCell.style.borderBottom = `1px solid ${rowBorder}`;
-      valueCell.style.color = valueText;
-      valueCell.textContent = this.formatValue(row.value);
+      if (row.url) {
+        const url = row.url;
+        const link = document.createElement("span");
+        link.textContent = "↗";
+        link.title = `${this.localize("Link.Open", "Open link")}: ${url}`;
+        link.setAttribute("role", "link");
+        link.setAttribute("aria-label", link.title);
+        link.tabIndex = 0;
+        link.style.marginInlineStart = "6px";
+        link.style.cursor = "pointer";
+        link.style.color = isHighContrast ? (hcForeground || accent) : accent;
+        link.addEventListener("click", (e) => {
+          e.stopPropagation();
+          this.host.launchUrl(url);
+        });
+        // keep Enter / Space from also selecting the row through the table's key handler
+        link.addEventListener("keydown", (e) => {
+          if (e.key !== "Enter" && e.key !== " ") return;
+          e.preventDefault();
+          e.stopPropagation();
+          this.host.launchUrl(url);
+        });
+        nameCell.appendChild(link);
+      }
+
+      const valueCells = this.measureColumns.map((_, measureIndex) => {
+        const valueCell = document.createElement("td");
+        valueCell.style.padding = "0 8px";
+        valueCell.style.height = `${rowHeight}px`;
+        valueCell.style.borderBottom = `1px solid ${rowBorder}`;
+        valueCell.style.color = valueText;
+        valueCell.textContent = this.formatMeasure(row, measureIndex, "table");
+        return valueCell;
+      });
+      if (this.isCountRollup()) {
+        const countCell = document.createElement("td");
+        countCell.style.padding = "0 8px";
+        countCell.style.height = `${rowHeight}px`;
+        countCell.style.borderBottom = `1px solid ${rowBorder}`;
+        countCell.style.color = valueText;
+        countCell.textContent = row.rollup ? this.formatValue(row.rollup.count) : "";
+        valueCells.push(countCell);
+      }
+      if (this.showKpi()) {
+        const kpi = this.getKpi(row);
+        const kpiColor = kpi && !isHighContrast && !isSelected ? this.getKpiColor(kpi.status) : valueText;
+        const kpiFormatter = this.targetColumn?.formatters.table;
+        const kpiTexts = [
+          this.formatValue(kpi ? kpi.target : row.target, kpiFormatter),
+          kpi ? this.formatSigned(kpi.variance, kpiFormatter) : "",
+          kpi ? this.formatVariancePercent(kpi.variancePercent) : ""
+        ];
+        kpiTexts.forEach((text, k) => {
+          const kpiCell = document.createElement("td");
+          kpiCell.style.padding = "0 8px";
+          kpiCell.style.height = `${rowHeight}px`;
+          kpiCell.style.borderBottom = `1px solid ${rowBorder}`;
+          kpiCell.style.color = k === 0 ? valueText : kpiColor;
+          kpiCell.textContent = text;
+          valueCells.push(kpiCell);
+        });
+      }
+      if (this.linkValueColumn) {
+        const linkCell = document.createElement("td");
+        linkCell.style.padding = "0 8px";
+        linkCell.style.height = `${rowHeight}px`;
+        linkCell.style.borderBottom = `1px solid ${rowBorder}`;
+        linkCell.style.color = valueText;
+        linkCell.textContent = this.formatValue(row.linkValue, this.linkValueColumn.formatters.table);
+        valueCells.push(linkCell);
+      }
 
       const sparkCell = document.createElement("td");
       sparkCell.style.padding = "0 8px";
       sparkCell.style.height = `${rowHeight}px`;
       sparkCell.style.borderBottom = `1px solid ${rowBorder}`;
       sparkCell.style.color = valueText;
-      const sparkValue = this.formatValue(row.sparkline);
-      if (typeof row.sparkline === "number" && this.sparklineMin !== null) {
+      const sparkValue = this.formatValue(row.sparkline, this.sparklineFormatters?.table);
+      if (row.series && row.series.length > 0) {
+        const chartW = 80;
+        const chartH = Math.max(12, Math.min(SPARKLINE_HEIGHT, rowHeight - 8));
+        const dpr = window.devicePixelRatio || 1;
+        const chart = document.createElement("canvas");
+        chart.width = Math.ceil(chartW * dpr);
+        chart.height = Math.ceil(chartH * dpr);
+        chart.style.width = `${chartW}px`;
+        chart.style.height = `${chartH}px`;
+        chart.style.display = "block";
+        const chartCtx = chart.getContext("2d");
+        if (chartCtx) {
+          chartCtx.setTransform(dpr, 0, 0, dpr, 0, 0);
+          this.drawSparkline(chartCtx, row.series, 3, 3, chartW - 6, chartH - 6, 1);
+        }
+        chart.title = sparkValue;
+        sparkCell.appendChild(chart);
+      } else if (typeof row.sparkline === "number" && this.sparklineMin !== null) {
         const range = (this.sparklineMax ?? this.sparklineMin) - this.sparklineMin;
         const t = range === 0 ? 1 : (row.sparkline - this.sparklineMin) / range;
         const bar = document.createElement("div");
@@ -1543,7 +3758,7 @@ export class Visual implements IVisual {
 
 
       tr.appendChild(nameCell);
-      tr.appendChild(valueCell);
+      for (const valueCell of valueCells) tr.appendChild(valueCell);
       tr.appendChild(sparkCell);
 
       tr.addEventListener("click", async (e) => {
@@ -1554,6 +3769,12 @@ export class Visual implements IVisual {
         this.focusedIndex = i;
         this.tableContainer.focus();
 
+        if (this.isSyntheticId(row.id)) {
+          this.selectedIds.clear();
+          await this.selectionManager.clear();
+          this.renderView();
+          return;
+        }
         if (!isMulti) {
           this.selectedIds.clear();
           this.selectedIds.add(row.id);
@@ -1562,7 +3783,7 @@ export class Visual implements IVisual {
           else this.selectedIds.add(row.id);
         }
 
-        await this.selectionManager.select(row.selectionId, isMulti);
+        await this.selectionManager.select(this.getSelectionIds(row), isMulti);
         this.renderView();
       });
 
@@ -1570,6 +3791,10 @@ export class Visual implements IVisual {
     }
   }
   private renderTree(width: number, height: number): void {
+    if (this.renderFrameId) {
+      cancelAnimationFrame(this.renderFrameId);
+      this.renderFrameId = 0;
+    }
     const ctx = this.ctx;
     const s = this.settings.layout;
     const appearance = this.settings.appearance;
@@ -1584,12 +3809,16 @@ export class Visual implements IVisual {
     const hcBackground = palette?.background?.value;
     const lineColor = isHighContrast ? (hcForeground || lines.lineColor) : lines.lineColor;
     const activeLineColor = isHighContrast ? (hcForeground || lines.activeColor) : lines.activeColor;
+    const crossLinkColor = isHighContrast ? (hcForeground || lines.crossLinkColor) : lines.crossLinkColor;
     const nodeFillColor = isHighContrast ? (hcBackground || nodes.fillColor) : nodes.fillColor;
     const nodeStrokeColor = isHighContrast ? (hcForeground || nodes.strokeColor) : nodes.strokeColor;
     const titleColor = isHighContrast ? (hcForeground || nodes.titleColor) : nodes.titleColor;
     const valueColor = isHighContrast ? (hcForeground || nodes.valueColor) : nodes.valueColor;
     const tipStyle = lines.showArrows ? lines.tipStyle : "none";
     const tipSize = Math.max(2, lines.tipSize);
+    const cardRows = this.getCardRows();
+    const showAvatars = this.showAvatars();
+    const imageSettings = this.settings.image;
 
     // background
     ctx.clearRect(0, 0, width, height);
@@ -1605,72 +3834,131 @@ export class Visual implements IVisual {
     ctx.translate(this.tx, this.ty);
     ctx.scale(this.scale, this.scale);
 
+    // visible world rectangle, padded for shadows and tips; anything outside it is skipped
+    const margin = 24 / this.scale;
+    const view = {
+      x0: -this.tx / this.scale - margin,
+      y0: -this.ty / this.scale - margin,
+      x1: (width - this.tx) / this.scale + margin,
+      y1: (height - this.ty) / this.scale + margin
+    };
+    const cull = this.cullingEnabled;
+    const inView = (x0: number, y0: number, x1: number, y1: number) =>
+      !cull || (x1 >= view.x0 && x0 <= view.x1 && y1 >= view.y0 && y0 <= view.y1);
+
+    // semantic zoom: blocks without text, then whole subtrees as silhouettes
+    const lod = this.getDetailLevel();
+    const blocks = lod === "block" || lod === "silhouette";
+    const silhouettes = lod === "silhouette" ? this.getSilhouettes() : null;
+    const halo = isHighContrast
+      ? (hcBackground || UI.bg)
+      : (appearance.useBackground ? appearance.backgroundColor : UI.bg);
+
     // LINKS behind nodes
     const linkWidth = Math.max(0, lines.lineWidth);
     if (linkWidth > 0) {
       ctx.lineWidth = linkWidth / this.scale;
       ctx.setLineDash(lines.lineStyle === "dashed" ? [4 / this.scale, 3 / this.scale] : []);
+      const linkWidthOf = this.getLinkWidthScale();
       for (const l of this.links) {
+        if (silhouettes?.hidden.has(l.target.id)) continue;
+        if (cull && !this.isLinkInView(l.source, l.target, inView)) continue;
         const active = this.hoveredId && (l.source.id === this.hoveredId || l.target.id === this.hoveredId);
-      ctx.strokeStyle = active ? activeLineColor : lineColor;
-
-        const x1 = l.source.x;
-        const y1 = l.source.y;
-        const x2 = l.target.x;
-        const y2 = l.target.y;
-
-        if (s.orientation === "TD") {
-          const startY = y1 + s.cardHeight / 2;
-          const endY = y2 - s.cardHeight / 2;
-          const midY = (startY + endY) / 2;
-
-          ctx.beginPath();
-          ctx.moveTo(x1, startY);
-          ctx.lineTo(x1, midY);
-          ctx.lineTo(x2, midY);
-          ctx.lineTo(x2, endY);
-          ctx.stroke();
-
-          if (tipStyle !== "none") this.drawLineTip(ctx, x2, endY, "down", tipStyle, tipSize);
-        } else {
-          const startX = x1 + s.cardWidth / 2;
-          const endX = x2 - s.cardWidth / 2;
-          const midX = (startX + endX) / 2;
-
-          ctx.beginPath();
-          ctx.moveTo(startX, y1);
-          ctx.lineTo(midX, y1);
-          ctx.lineTo(midX, y2);
-          ctx.lineTo(endX, y2);
-          ctx.stroke();
-
-          if (tipStyle !== "none") this.drawLineTip(ctx, endX, y2, "right", tipStyle, tipSize);
-        }
+        ctx.strokeStyle = active ? activeLineColor : lineColor;
+        ctx.lineWidth = (linkWidthOf ? linkWidthOf(l.target) : linkWidth) / this.scale;
+        this.drawLink(ctx, l.source, l.target, tipStyle, tipSize);
+      }
+      ctx.lineWidth = linkWidth / this.scale;
+
+      // secondary (matrix) relationships: always dashed, own colour
+      ctx.setLineDash([6 / this.scale, 4 / this.scale]);
+      for (const l of this.crossLinks) {
+        if (silhouettes && (silhouettes.hidden.has(l.source.id) || silhouettes.hidden.has(l.target.id))) continue;
+        if (cull && !this.isLinkInView(l.source, l.target, inView)) continue;
+        const active = this.hoveredId && (l.source.id === this.hoveredId || l.target.id === this.hoveredId);
+        ctx.strokeStyle = active ? activeLineColor : crossLinkColor;
+        this.drawLink(ctx, l.source, l.target, tipStyle, tipSize);
       }
       ctx.setLineDash([]);
+
+      if (this.linkValueColumn && lines.showLinkLabels && !blocks) {
+        this.drawLinkLabels(ctx, valueColor || UI.subtext, halo, inView);
+      }
     }
 
     // NODES
     this.nodeRects = [];
     this.toggleRects = [];
+    this.linkRects = [];
 
     for (const n of this.nodes) {
-      const x = n.x - s.cardWidth / 2;
-      const y = n.y - s.cardHeight / 2;
-      const w = s.cardWidth;
-      const h = s.cardHeight;
+      if (silhouettes?.hidden.has(n.id)) continue;
+      const silhouette = silhouettes?.shapes.get(n.id);
+      if (silhouette) {
+        if (!inView(silhouette.x0, silhouette.y0, silhouette.x1, silhouette.y1)) continue;
+        const color = isHighContrast ? (hcForeground || lineColor) : (n.colors?.fill ?? lineColor);
+        const outline = this.selectedIds.has(n.id) ? accent : (this.hoveredId === n.id ? activeLineColor : null);
+        this.drawSilhouette(ctx, silhouette, n, color, outline);
+        this.nodeRects.push({
+          node: n,
+          x: silhouette.x0,
+          y: silhouette.y0,
+          w: silhouette.x1 - silhouette.x0,
+          h: silhouette.y1 - silhouette.y0,
+          angle: 0
+        });
+        continue;
+      }
+
+      // turned cards: bound by the larger side in every direction
+      const halfW = n.rotation ? Math.max(n.w, n.h) / 2 : n.w / 2;
+      const halfH = n.rotation ? halfW : n.h / 2;
+      if (!inView(n.x - halfW, n.y - halfH, n.x + halfW, n.y + halfH)) continue;
+
+      const x = n.x - n.w / 2;
+      const y = n.y - n.h / 2;
+      const w = n.w;
+      const h = n.h;
+      const angle = n.rotation ?? 0;
+      const presence = n.presence ?? 1;
+
+      // radial labels: draw the card in its own turned frame around the centre;
+      // cards entering or leaving in a transition are scaled and faded about it too
+      ctx.save();
+      if (angle || presence < 1) {
+        ctx.translate(n.x, n.y);
+        ctx.rotate(angle);
+        if (presence < 1) {
+          ctx.scale(presence, presence);
+          ctx.globalAlpha *= presence;
+        }
+        ctx.translate(-n.x, -n.y);
+      }
 
       const isHovered = this.hoveredId === n.id;
       const isSelected = this.selectedIds.has(n.id);
       const hasChildren = (this.childrenMap.get(n.id)?.length ?? 0) > 0;
       const toggleSize = 14;
-      const textLeftPad = 6;
-      const textRightPad = hasChildren ? (toggleSize + 10) : 6;
-      const textWidth = Math.max(0, w - textLeftPad - textRightPad);
+
+      // avatar: left of the content, or centered above the title
+      const avatarSize = showAvatars
+        ? Math.max(8, imageSettings.position === "left" ? Math.min(imageSettings.size, h - 12) : imageSettings.size)
+        : 0;
+      const avatarLeft = showAvatars && imageSettings.position === "left";
+      const contentX = avatarLeft ? x + avatarSize + 6 : x;
+      const contentW = w - (contentX - x);
+      const titleY = showAvatars && !avatarLeft ? y + 6 + avatarSize + 4 : y + 6;
+
+      // Right-Left mirrors the card: toggle and link glyph move to the left corner
+      const mirrored = s.orientation === "RL";
+      const controlsPad = (hasChildren ? (toggleSize + 10) : 6) + (n.url ? toggleSize + 4 : 0);
+      const textLeftPad = mirrored ? controlsPad : 6;
+      const textRightPad = mirrored ? 6 : controlsPad;
+      const textWidth = Math.max(0, contentW - textLeftPad - textRightPad);
 
       // shadow
       ctx.save();
-      if (nodes.showShadow && !isHighContrast) {
+      if (nodes.showShadow && !isHighContrast && !blocks) {
         ctx.shadowColor = UI.cardShadow;
         ctx.shadowBlur = (isHovered || isSelected) ? 10 : 6;
         ctx.shadowOffsetY = 2;
@@ -1681,13 +3969,15 @@ export class Visual implements IVisual {
       }
 
       // card
-      const baseFill = levels.enable
+      // data-bound colours win over level colours; high contrast ignores both
+      const ruleColors = isHighContrast ? null : n.colors;
+      const baseFill = ruleColors?.fill ?? (levels.enable
         ? (levels.levelColors[n.depth % levels.levelColors.length] || nodeFillColor)
-        : nodeFillColor;
+        : nodeFillColor);
       ctx.fillStyle = isSelected ? UI.accentSoft : baseFill;
       ctx.strokeStyle = isSelected
         ? accent
-        : (isHovered ? activeLineColor : nodeStrokeColor);
+        : (isHovered ? activeLineColor : (ruleColors?.stroke ?? nodeStrokeColor));
       ctx.lineWidth = Math.max(0, nodes.strokeWidth) / this.scale;
 
       const radius =
@@ -1702,6 +3992,15 @@ export class Visual implements IVisual {
       ctx.stroke();
       ctx.restore();
 
+      // KPI status stripe along the left edge
+      const kpi = this.getKpi(n);
+      const kpiColor = kpi ? (isHighContrast ? (hcForeground || UI.title) : this.getKpiColor(kpi.status)) : null;
+      if (kpiColor) {
+        const inset = Math.min(radius, h / 2);
+        ctx.fillStyle = kpiColor;
+        ctx.fillRect(x, y + inset, 3, h - inset * 2);
+      }
+
       if (this.focusedNodeId === n.id) {
         ctx.save();
         ctx.strokeStyle = isHighContrast ? (hcForeground || activeLineColor) : activeLineColor;
@@ -1712,49 +4011,100 @@ export class Visual implements IVisual {
         ctx.restore();
       }
 
+      // low zoom: the card stays a plain coloured block, without text or controls
+      if (blocks) {
+        ctx.restore();
+        if (presence >= 1) this.nodeRects.push({ node: n, x, y, w, h, angle });
+        continue;
+      }
+
+      if (showAvatars) {
+        const ax = avatarLeft ? x + 6 : x + w / 2 - avatarSize / 2;
+        this.drawAvatar(ctx, n, ax, y + 6, avatarSize, isHighContrast ? hcForeground : undefined);
+      }
+
       // title (wrap 2 lines, centered)
       const titleSpec = this.getTitleFontSpec();
-      const align = nodes.titleAlign === "left" ? "left" : nodes.titleAlign === "right" ? "right" : "center";
+      const align = this.getTitleAlign();
       const textX =
         align === "left"
-          ? x + textLeftPad
+          ? contentX + textLeftPad
           : align === "right"
-            ? x + textLeftPad + textWidth
-            : x + textLeftPad + textWidth / 2;
+            ? contentX + textLeftPad + textWidth
+            : contentX + textLeftPad + textWidth / 2;
 
       ctx.textBaseline = "top";
       ctx.textAlign = align;
-      ctx.fillStyle = titleColor || UI.title;
+      ctx.fillStyle = ruleColors?.title ?? (titleColor || UI.title);
       ctx.font = titleSpec.font;
 
       if (nodes.titleWrap) {
-        this.drawWrappedText(ctx, n.label, textX, y + 6, textWidth, titleSpec.lineHeight, 2, align);
+        this.drawWrappedText(ctx, n.label, textX, titleY, textWidth, titleSpec.lineHeight, n.titleLines, align);
       } else {
-        this.drawSingleLineText(ctx, n.label, textX, y + 6, textWidth);
+        this.drawSingleLineText(ctx, n.label, textX, titleY, textWidth);
       }
 
-      // value line (optional)
-      const valueText = this.formatValue(n.value);
-      if (valueText) {
-        ctx.fillStyle = valueColor || UI.subtext;
-        ctx.font = FONT.value;
-        ctx.textBaseline = "bottom";
-        ctx.textAlign = "center";
-        ctx.fillText(valueText, x + w / 2, y + h - 6);
+      // value rows (optional): a single row stays centered, several get labelled rows
+      ctx.fillStyle = valueColor || UI.subtext;
+      ctx.font = FONT.value;
+      ctx.textBaseline = "bottom";
+      if (cardRows.length === 1) {
+        const valueText = this.getCardRowText(n, cardRows[0]);
+        if (valueText) {
+          ctx.textAlign = "center";
+          if (cardRows[0].kpi && kpiColor) ctx.fillStyle = kpiColor;
+          ctx.fillText(valueText, contentX + contentW / 2, y + h - 6);
+          ctx.fillStyle = valueColor || UI.subtext;
+        }
+      } else {
+        cardRows.forEach((cardRow, row) => {
+          const rowY = y + h - 6 - (cardRows.length - 1 - row) * VALUE_ROW_HEIGHT;
+          const valueText = this.getCardRowText(n, cardRow);
+          const valueWidth = valueText ? ctx.measureText(valueText).width : 0;
+          ctx.textAlign = "left";
+          this.drawSingleLineText(
+            ctx,
+            this.getCardRowLabel(n, cardRow),
+            contentX + 8,
+            rowY,
+            Math.max(0, contentW - 16 - valueWidth - 6)
+          );
+          if (valueText) {
+            ctx.textAlign = "right";
+            if (cardRow.kpi && kpiColor) ctx.fillStyle = kpiColor;
+            ctx.fillText(valueText, x + w - 8, rowY);
+            ctx.fillStyle = valueColor || UI.subtext;
+          }
+        });
       }
 
-      // sparkline indicator (optional)
-      if (typeof n.sparkline === "number" && Number.isFinite(n.sparkline) && this.sparklineMin !== null) {
+      // sparkline chart (Period bound) or single-value indicator (optional)
+      if (n.series && n.series.length > 0) {
+        const chartBottom = cardRows.length > 0
+          ? y + h - 8 - cardRows.length * VALUE_ROW_HEIGHT
+          : y + h - 6;
+        this.drawSparkline(
+          ctx,
+          n.series,
+          contentX + 8,
+          chartBottom - SPARKLINE_HEIGHT,
+          contentW - 16,
+          SPARKLINE_HEIGHT,
+          1 / this.scale
+        );
+      } else if (typeof n.sparkline === "number" && Number.isFinite(n.sparkline) && this.sparklineMin !== null) {
         const range = (this.sparklineMax ?? this.sparklineMin) - this.sparklineMin;
         const t = range === 0 ? 1 : (n.sparkline - this.sparklineMin) / range;
-        const lineW = (w - 16) * Math.max(0, Math.min(1, t));
-        const sparkY = valueText ? y + h - 14 : y + h - 8;
+        const lineW = (contentW - 16) * Math.max(0, Math.min(1, t));
+        const sparkY = cardRows.length > 0
+          ? y + h - 14 - (cardRows.length - 1) * VALUE_ROW_HEIGHT
+          : y + h - 8;
 
         ctx.strokeStyle = isHighContrast ? (hcForeground || accent) : accent;
         ctx.lineWidth = 2 / this.scale;
         ctx.beginPath();
-        ctx.moveTo(x + 8, sparkY);
-        ctx.lineTo(x + 8 + lineW, sparkY);
+        ctx.moveTo(contentX + 8, sparkY);
+        ctx.lineTo(contentX + 8 + lineW, sparkY);
         ctx.stroke();
       }
 
@@ -1762,7 +4112,7 @@ export class Visual implements IVisual {
       if (hasChildren) {
         const tW = toggleSize;
         const tH = toggleSize;
-        const tX = x + w - tW - 6;
+        const tX = mirrored ? x + 6 : x + w - tW - 6;
         const tY = y + 6;
 
         ctx.fillStyle = isHighContrast ? (hcBackground || UI.toggleFill) : UI.toggleFill;
@@ -1785,12 +4135,777 @@ export class Visual implements IVisual {
         this.toggleRects.push({ nodeId: n.id, x: tX, y: tY, w: tW, h: tH });
       }
 
-      this.nodeRects.push({ node: n, x, y, w, h });
+      // link glyph (URL bound), left of the collapse toggle
+      if (n.url) {
+        const lX = mirrored
+          ? x + 6 + (hasChildren ? toggleSize + 4 : 0)
+          : x + w - 6 - toggleSize - (hasChildren ? toggleSize + 4 : 0);
+        const lY = y + 6;
+        this.drawLinkGlyph(ctx, lX, lY, toggleSize, isHighContrast ? (hcForeground || accent) : accent);
+        this.linkRects.push({ nodeId: n.id, url: n.url, x: lX, y: lY, w: toggleSize, h: toggleSize });
+      }
+
+      if (lod === "detail") this.drawCardDetail(ctx, n, x, y + h, w, valueColor || UI.subtext, halo);
+
+      ctx.restore();
+      if (presence >= 1) this.nodeRects.push({ node: n, x, y, w, h, angle });
+    }
+
+    this.nodeIndex.clear();
+    this.nodeRects.forEach((r, i) => {
+      const cx = r.x + r.w / 2;
+      const cy = r.y + r.h / 2;
+      const half = r.angle ? Math.max(r.w, r.h) / 2 : 0;
+      if (half) this.nodeIndex.insert(i, cx - half, cy - half, cx + half, cy + half);
+      else this.nodeIndex.insert(i, r.x, r.y, r.x + r.w, r.y + r.h);
+    });
+
+    ctx.restore();
+
+    this.minimapFrame = this.minimapVisible ? this.getMinimapFrame(width, height) : null;
+    if (this.minimapFrame) {
+      this.drawMinimap(ctx, this.minimapFrame, width, height, {
+        background: isHighContrast ? (hcBackground || UI.bg) : UI.bg,
+        border: isHighContrast ? (hcForeground || UI.toggleStroke) : UI.toggleStroke,
+        link: lineColor,
+        node: isHighContrast ? (hcForeground || nodeStrokeColor) : UI.subtext,
+        accent
+      });
+    }
+  }
+
+  /** Minimap box in the configured corner, sized to the laid-out tree's aspect ratio */
+  private getMinimapFrame(width: number, height: number): MinimapFrame | null {
+    if (this.nodes.length === 0) return null;
+    let x0 = Infinity, y0 = Infinity, x1 = -Infinity, y1 = -Infinity;
+    for (const n of this.nodes) {
+      x0 = Math.min(x0, n.x - n.w / 2);
+      y0 = Math.min(y0, n.y - n.h / 2);
+      x1 = Math.max(x1, n.x + n.w / 2);
+      y1 = Math.max(y1, n.y + n.h / 2);
+    }
+
+    const s = this.settings.minimap;
+    const inner = s.size - MINIMAP_PAD * 2;
+    const k = inner / Math.max(1, x1 - x0, y1 - y0);
+    // keep a usable drag target for very wide or very tall trees
+    const w = Math.max(40, (x1 - x0) * k + MINIMAP_PAD * 2);
+    const h = Math.max(40, (y1 - y0) * k + MINIMAP_PAD * 2);
+    if (w + MINIMAP_MARGIN * 2 > width || h + MINIMAP_MARGIN * 2 > height) return null;
+
+    // top corners sit below the toolbar
+    const toolbarH = this.settings.controls.showControls ? this.toolbar.offsetHeight + MINIMAP_MARGIN : 0;
+    const left = s.position === "bottomLeft" || s.position === "topLeft";
+    const top = s.position === "topLeft" || s.position === "topRight";
+    const x = left ? MINIMAP_MARGIN : width - MINIMAP_MARGIN - w;
+    const y = top ? MINIMAP_MARGIN + toolbarH : height - MINIMAP_MARGIN - h;
+    return {
+      x,
+      y,
+      w,
+      h,
+      k,
+      ox: x + (w - (x1 - x0) * k) / 2 - x0 * k,
+      oy: y + (h - (y1 - y0) * k) / 2 - y0 * k
+    };
+  }
+
+  /** Thumbnail of every card and link plus the current viewport, drawn in screen space */
+  private drawMinimap(
+    ctx: CanvasRenderingContext2D,
+    f: MinimapFrame,
+    width: number,
+    height: number,
+    colors: { background: string; border: string; link: string; node: string; accent: string }
+  ): void {
+    ctx.save();
+    this.roundRect(ctx, f.x, f.y, f.w, f.h, 6);
+    ctx.fillStyle = colors.background;
+    ctx.globalAlpha = 0.92;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = colors.border;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+    ctx.clip();
+
+    // one path per layer keeps large trees cheap to redraw while panning
+    ctx.beginPath();
+    for (const l of this.links) {
+      ctx.moveTo(f.ox + l.source.x * f.k, f.oy + l.source.y * f.k);
+      ctx.lineTo(f.ox + l.target.x * f.k, f.oy + l.target.y * f.k);
+    }
+    ctx.strokeStyle = colors.link;
+    ctx.lineWidth = 0.75;
+    ctx.stroke();
+
+    const cardPath = (list: Iterable<LayoutNode>) => {
+      ctx.beginPath();
+      for (const n of list) {
+        const w = Math.max(1, n.w * f.k);
+        const h = Math.max(1, n.h * f.k);
+        ctx.rect(f.ox + n.x * f.k - w / 2, f.oy + n.y * f.k - h / 2, w, h);
+      }
+    };
+    cardPath(this.nodes);
+    ctx.fillStyle = colors.node;
+    ctx.fill();
+    if (this.selectedIds.size) {
+      cardPath(this.nodes.filter(n => this.selectedIds.has(n.id)));
+      ctx.fillStyle = colors.accent;
+      ctx.fill();
+    }
+
+    // viewport
+    const vx = f.ox + (-this.tx / this.scale) * f.k;
+    const vy = f.oy + (-this.ty / this.scale) * f.k;
+    const vw = (width / this.scale) * f.k;
+    const vh = (height / this.scale) * f.k;
+    ctx.fillStyle = colors.accent;
+    ctx.globalAlpha = 0.12;
+    ctx.fillRect(vx, vy, vw, vh);
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = colors.accent;
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(vx, vy, vw, vh);
+    ctx.restore();
+  }
+
+  /** World point under a client position, mapped through the minimap; null when the minimap is not drawn */
+  private minimapToWorld(clientX: number, clientY: number): { x: number; y: number; inside: boolean } | null {
+    const f = this.minimapFrame;
+    if (!f) return null;
+    const rect = this.canvas.getBoundingClientRect();
+    const mx = clientX - rect.left;
+    const my = clientY - rect.top;
+    return {
+      x: (mx - f.ox) / f.k,
+      y: (my - f.oy) / f.k,
+      inside: mx >= f.x && mx <= f.x + f.w && my >= f.y && my <= f.y + f.h
+    };
+  }
+
+  private isMinimapHit(clientX: number, clientY: number): boolean {
+    return this.minimapToWorld(clientX, clientY)?.inside === true;
+  }
+
+  /** World point at the centre of the canvas */
+  private getViewCenter(): { x: number; y: number } {
+    return {
+      x: (this.lastViewportW / 2 - this.tx) / this.scale,
+      y: (this.lastViewportH / 2 - this.ty) / this.scale
+    };
+  }
+
+  private centerViewOn(x: number, y: number): void {
+    this.tx = this.lastViewportW / 2 - x * this.scale;
+    this.ty = this.lastViewportH / 2 - y * this.scale;
+  }
+
+  /** Box-with-arrow "open link" glyph */
+  private drawLinkGlyph(ctx: CanvasRenderingContext2D, x: number, y: number, size: number, color: string): void {
+    const pad = size * 0.2;
+    const s = size - pad * 2;
+    ctx.save();
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.25 / this.scale;
+    ctx.lineCap = "round";
+    ctx.beginPath();
+    ctx.moveTo(x + pad + s * 0.45, y + pad);
+    ctx.lineTo(x + pad, y + pad);
+    ctx.lineTo(x + pad, y + pad + s);
+    ctx.lineTo(x + pad + s, y + pad + s);
+    ctx.lineTo(x + pad + s, y + pad + s * 0.55);
+    ctx.moveTo(x + pad + s * 0.45, y + pad + s * 0.55);
+    ctx.lineTo(x + pad + s, y + pad);
+    ctx.moveTo(x + pad + s * 0.65, y + pad);
+    ctx.lineTo(x + pad + s, y + pad);
+    ctx.lineTo(x + pad + s, y + pad + s * 0.35);
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  /** Photo clipped to a circle/square; falls back to initials while loading or when the image fails */
+  private drawAvatar(
+    ctx: CanvasRenderingContext2D,
+    node: LayoutNode,
+    x: number,
+    y: number,
+    size: number,
+    hcForeground?: string
+  ): void {
+    const imageSettings = this.settings.image;
+    const radius = imageSettings.shape === "circle" ? size / 2 : Math.min(4, size / 4);
+    const img = node.imageUrl ? this.getImage(node.imageUrl) : null;
+    if (!img && !imageSettings.showInitials) return;
+
+    ctx.save();
+    this.roundRect(ctx, x, y, size, size, radius);
+    if (img) {
+      ctx.clip();
+      ctx.drawImage(img, x, y, size, size);
+    } else {
+      ctx.fillStyle = hcForeground ? "transparent" : imageSettings.initialsBackground;
+      ctx.fill();
+      if (hcForeground) {
+        ctx.strokeStyle = hcForeground;
+        ctx.lineWidth = 1 / this.scale;
+        ctx.stroke();
+      }
+      ctx.fillStyle = hcForeground || imageSettings.initialsColor;
+      ctx.font = `600 ${Math.max(6, Math.round(size * 0.4))}px Segoe UI`;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      ctx.fillText(this.getInitials(node.label), x + size / 2, y + size / 2 + 0.5);
+    }
+    ctx.restore();
+  }
+
+  private getInitials(label: string): string {
+    const words = (label ?? "").split(/[\s/]+/).filter(w => /[\p{L}\p{N}]/u.test(w));
+    if (words.length === 0) return "";
+    if (words.length === 1) return Array.from(words[0]).slice(0, 2).join("").toUpperCase();
+    return (Array.from(words[0])[0] + Array.from(words[words.length - 1])[0]).toUpperCase();
+  }
+
+  /** Loads images once; the tree redraws (once per frame) as they arrive */
+  private getImage(url: string): HTMLImageElement | null {
+    let entry = this.imageCache.get(url);
+    if (!entry) {
+      const img = new Image();
+      const created = { img, state: "loading" as "loading" | "ready" | "error" };
+      img.onload = () => {
+        created.state = "ready";
+        this.scheduleImageRedraw();
+      };
+      img.onerror = () => {
+        created.state = "error";
+      };
+      img.src = url;
+      this.imageCache.set(url, created);
+      entry = created;
+    }
+    return entry.state === "ready" ? entry.img : null;
+  }
+
+  /** Drops images no row refers to any more, so the cache does not grow with every data change */
+  private pruneImageCache(): void {
+    const used = new Set(this.allRows.map(r => r.imageUrl).filter(Boolean));
+    for (const url of this.imageCache.keys()) {
+      if (!used.has(url)) this.imageCache.delete(url);
+    }
+  }
+
+  private scheduleImageRedraw(): void {
+    if (this.viewMode === "tree") this.requestRender();
+  }
+
+  /** Mini line/area chart; px is the size of one screen pixel in the target context's units */
+  private drawSparkline(
+    ctx: CanvasRenderingContext2D,
+    series: SparkPoint[],
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    px: number
+  ): void {
+    const spark = this.settings.sparkline;
+    const palette = (this.host as any).colorPalette as powerbi.extensibility.ISandboxExtendedColorPalette | undefined;
+    const isHighContrast = palette?.isHighContrast === true;
+    const hcForeground = palette?.foreground?.value;
+    const lineColor = isHighContrast ? (hcForeground || spark.lineColor) : spark.lineColor;
+
+    let min = Infinity;
+    let max = -Infinity;
+    let minIdx = 0;
+    let maxIdx = 0;
+    series.forEach((p, i) => {
+      if (p.value < min) { min = p.value; minIdx = i; }
+      if (p.value > max) { max = p.value; maxIdx = i; }
+    });
+    if (spark.scale === "shared" && this.sparklineMin !== null && this.sparklineMax !== null) {
+      min = this.sparklineMin;
+      max = this.sparklineMax;
+    }
+
+    const range = max - min;
+    const pointX = (i: number) => series.length === 1 ? x + w / 2 : x + (w * i) / (series.length - 1);
+    const pointY = (v: number) => range === 0 ? y + h / 2 : y + h - ((v - min) / range) * h;
+
+    ctx.save();
+    ctx.setLineDash([]);
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+
+    if (spark.chartType === "area" && series.length > 1) {
+      ctx.beginPath();
+      ctx.moveTo(pointX(0), y + h);
+      series.forEach((p, i) => ctx.lineTo(pointX(i), pointY(p.value)));
+      ctx.lineTo(pointX(series.length - 1), y + h);
+      ctx.closePath();
+      ctx.globalAlpha = 0.2;
+      ctx.fillStyle = lineColor;
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+
+    ctx.strokeStyle = lineColor;
+    ctx.lineWidth = 1.5 * px;
+    ctx.beginPath();
+    series.forEach((p, i) => {
+      if (i === 0) ctx.moveTo(pointX(i), pointY(p.value));
+      else ctx.lineTo(pointX(i), pointY(p.value));
+    });
+    ctx.stroke();
+
+    const marker = (i: number, color: string) => {
+      ctx.fillStyle = isHighContrast ? (hcForeground || color) : color;
+      ctx.beginPath();
+      ctx.arc(pointX(i), pointY(series[i].value), 2 * px, 0, Math.PI * 2);
+      ctx.fill();
+    };
+    if (spark.showMinMarker) marker(minIdx, UI.sparkMin);
+    if (spark.showMaxMarker) marker(maxIdx, UI.sparkMax);
+    if (spark.showLastMarker) marker(series.length - 1, lineColor);
+
+    ctx.restore();
+  }
+
+  /** Incoming link width from the child's Link value, scaled linearly over the visible links */
+  private getLinkWidthScale(): ((target: LayoutNode) => number) | null {
+    if (!this.linkValueColumn) return null;
+    const lines = this.settings.lines;
+    const minW = Math.min(lines.linkMinWidth, lines.linkMaxWidth);
+    const maxW = Math.max(lines.linkMinWidth, lines.linkMaxWidth);
+
+    let lo = Infinity;
+    let hi = -Infinity;
+    for (const l of this.links) {
+      const v = l.target.linkValue;
+      if (typeof v !== "number" || !Number.isFinite(v)) continue;
+      lo = Math.min(lo, Math.abs(v));
+      hi = Math.max(hi, Math.abs(v));
+    }
+
+    return (target: LayoutNode) => {
+      const v = target.linkValue;
+      if (typeof v !== "number" || !Number.isFinite(v) || lo === Infinity) return minW;
+      const t = hi === lo ? 1 : (Math.abs(v) - lo) / (hi - lo);
+      return minW + (maxW - minW) * t;
+    };
+  }
+
+  /** Where a link value label sits: the elbow, or the middle of a curved or straight link */
+  private getLinkLabelPoint(source: LayoutNode, target: LayoutNode): LinkPoint {
+    const shape = this.settings.lines.linkShape;
+    if (this.settings.layout.orientation === "radial" && source.polar && target.polar) {
+      if (shape === "curved" || shape === "straight") {
+        return this.getCurveMidpoint(this.getRadialCurve(source, target), shape);
+      }
+      const midR = source.polar.radius === 0 ? target.polar.radius / 2 : (source.polar.radius + target.polar.radius) / 2;
+      const ta = target.polar.angle - Math.PI / 2;
+      return { x: midR * Math.cos(ta), y: midR * Math.sin(ta) };
+    }
+    const route = this.getLinkRoute(source, target);
+    if (shape === "curved" || shape === "straight") {
+      return this.getCurveMidpoint([route[0], route[1], route[route.length - 2], route[route.length - 1]], shape);
+    }
+    return route[route.length - 2];
+  }
+
+  private getCurveMidpoint(curve: LinkPoint[], shape: LinkShape): LinkPoint {
+    const [p0, c1, c2, p3] = curve;
+    if (shape === "straight") return { x: (p0.x + p3.x) / 2, y: (p0.y + p3.y) / 2 };
+    return { x: (p0.x + 3 * c1.x + 3 * c2.x + p3.x) / 8, y: (p0.y + 3 * c1.y + 3 * c2.y + p3.y) / 8 };
+  }
+
+  /**
+   * Orthogonal route between the parent and child card edges, used as-is for elbows and as the
+   * frame for the other shapes (the second and second-last points are the Bézier controls).
+   */
+  private getLinkRoute(source: LayoutNode, target: LayoutNode): LinkPoint[] {
+    const x1 = source.x;
+    const y1 = source.y;
+    const x2 = target.x;
+    const y2 = target.y;
+
+    if (this.settings.layout.orientation === "TD" && target.rail) {
+      // compact stack: down to the bus, across to the rail, down the rail, then into the card side
+      const startY = y1 + source.h / 2;
+      const midY = (startY + target.rail.top) / 2;
+      const railX = target.rail.x;
+      const endX = x2 > railX ? x2 - target.w / 2 : x2 + target.w / 2;
+      return [{ x: x1, y: startY }, { x: x1, y: midY }, { x: railX, y: midY }, { x: railX, y: y2 }, { x: endX, y: y2 }];
+    }
+    const flow = this.getFlowSign();
+    if (this.isVerticalFlow()) {
+      const startY = y1 + flow * source.h / 2;
+      const endY = y2 - flow * target.h / 2;
+      const midY = (startY + endY) / 2;
+      return [{ x: x1, y: startY }, { x: x1, y: midY }, { x: x2, y: midY }, { x: x2, y: endY }];
+    }
+    const startX = x1 + flow * source.w / 2;
+    const endX = x2 - flow * target.w / 2;
+    const midX = (startX + endX) / 2;
+    return [{ x: startX, y: y1 }, { x: midX, y: y1 }, { x: midX, y: y2 }, { x: endX, y: y2 }];
+  }
+
+  /** Radial link as a cubic from the parent's edge to the child's edge, with controls on the mid ring */
+  private getRadialCurve(source: LayoutNode, target: LayoutNode): LinkPoint[] {
+    const sa = source.polar!.angle - Math.PI / 2;
+    const ta = target.polar!.angle - Math.PI / 2;
+    const r1 = source.polar!.radius;
+    const r2 = target.polar!.radius;
+    const fromAngle = r1 === 0 ? ta : sa;
+    const startR = r1 + this.getRadialHalfExtent(source, fromAngle);
+    const endR = r2 - this.getRadialHalfExtent(target, ta);
+    const midR = (r1 + r2) / 2;
+    const polar = (r: number, a: number): LinkPoint => ({ x: r * Math.cos(a), y: r * Math.sin(a) });
+    return [polar(startR, fromAngle), polar(midR, fromAngle), polar(midR, ta), polar(endR, ta)];
+  }
+
+  private getDetailLevel(): DetailLevel {
+    const s = this.settings.layout;
+    const percent = this.scale * 100;
+    if (percent < s.silhouetteZoom) return "silhouette";
+    if (percent < s.blockZoom) return "block";
+    if (s.detailZoom > 0 && percent >= s.detailZoom) return "detail";
+    return "full";
+  }
+
+  /** Bounds of every subtree in the current layout, cached until the layout changes */
+  private getSubtreeBounds(): { bounds: Map<string, SubtreeBounds>; children: Map<string, LayoutNode[]> } {
+    // positions move every frame while a transition runs, so the cache only holds at rest
+    const cache = this.subtreeCache;
+    if (cache && cache.nodes === this.nodes && !this.transition) return cache;
+
+    const children = new Map<string, LayoutNode[]>();
+    for (const l of this.links) {
+      const list = children.get(l.source.id);
+      if (list) list.push(l.target);
+      else children.set(l.source.id, [l.target]);
+    }
+
+    // post-order walk from the roots so every child's bounds exist before its parent's
+    const bounds = new Map<string, SubtreeBounds>();
+    const targets = new Set(this.links.map(l => l.target.id));
+    const stack: Array<{ node: LayoutNode; done: boolean }> = this.nodes
+      .filter(n => !targets.has(n.id))
+      .map(node => ({ node, done: false }));
+    while (stack.length) {
+      const item = stack.pop()!;
+      const kids = children.get(item.node.id) ?? [];
+      if (!item.done) {
+        stack.push({ node: item.node, done: true });
+        for (const k of kids) if (!bounds.has(k.id)) stack.push({ node: k, done: false });
+        continue;
+      }
+      const n = item.node;
+      const halfW = n.rotation ? Math.max(n.w, n.h) / 2 : n.w / 2;
+      const halfH = n.rotation ? halfW : n.h / 2;
+      const b: SubtreeBounds = { x0: n.x - halfW, y0: n.y - halfH, x1: n.x + halfW, y1: n.y + halfH, count: 1 };
+      for (const k of kids) {
+        const c = bounds.get(k.id);
+        if (!c) continue;
+        b.x0 = Math.min(b.x0, c.x0);
+        b.y0 = Math.min(b.y0, c.y0);
+        b.x1 = Math.max(b.x1, c.x1);
+        b.y1 = Math.max(b.y1, c.y1);
+        b.count += c.count;
+      }
+      bounds.set(n.id, b);
+    }
+
+    this.subtreeCache = { nodes: this.nodes, bounds, children };
+    return this.subtreeCache;
+  }
+
+  /** Outermost subtrees that are small on screen; their descendants are not drawn one by one */
+  private getSilhouettes(): { shapes: Map<string, SubtreeBounds>; hidden: Set<string> } {
+    const { bounds, children } = this.getSubtreeBounds();
+    const shapes = new Map<string, SubtreeBounds>();
+    const hidden = new Set<string>();
+    const targets = new Set(this.links.map(l => l.target.id));
+    const stack = this.nodes.filter(n => !targets.has(n.id));
+
+    while (stack.length) {
+      const n = stack.pop()!;
+      const kids = children.get(n.id) ?? [];
+      const b = bounds.get(n.id);
+      if (kids.length && b && Math.max(b.x1 - b.x0, b.y1 - b.y0) * this.scale < SILHOUETTE_SCREEN_SIZE) {
+        shapes.set(n.id, b);
+        const below = [...kids];
+        while (below.length) {
+          const d = below.pop()!;
+          hidden.add(d.id);
+          below.push(...(children.get(d.id) ?? []));
+        }
+        continue;
+      }
+      stack.push(...kids);
+    }
+    return { shapes, hidden };
+  }
+
+  /** A subtree as one rounded shape; denser subtrees are drawn more opaque */
+  private drawSilhouette(
+    ctx: CanvasRenderingContext2D,
+    b: SubtreeBounds,
+    root: LayoutNode,
+    color: string,
+    outline: string | null
+  ): void {
+    const w = b.x1 - b.x0;
+    const h = b.y1 - b.y0;
+    const density = Math.min(1, (b.count * root.w * root.h) / Math.max(1, w * h));
+    ctx.save();
+    this.roundRect(ctx, b.x0, b.y0, w, h, Math.min(w, h) / 4);
+    ctx.globalAlpha = 0.25 + 0.6 * density;
+    ctx.fillStyle = color;
+    ctx.fill();
+    if (outline) {
+      ctx.globalAlpha = 1;
+      ctx.strokeStyle = outline;
+      ctx.lineWidth = 2 / this.scale;
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+
+  /** Secondary fields under the card at detail zoom: measures kept off the card, tooltip and dropdown */
+  private drawCardDetail(
+    ctx: CanvasRenderingContext2D,
+    n: LayoutNode,
+    x: number,
+    top: number,
+    w: number,
+    color: string,
+    halo: string
+  ): void {
+    const lines: string[] = [];
+    this.measureColumns.forEach((m, i) => {
+      if (m.showOnCard) return;
+      const text = this.formatMeasure(n, i, "card");
+      if (text) lines.push(`${m.displayName}: ${text}`);
+    });
+    const tooltipText = this.formatValue(n.tooltip, this.tooltipFormatters?.card);
+    if (tooltipText) lines.push(`${this.tooltipDisplayName}: ${tooltipText}`);
+    if (n.dropdown) lines.push(`${this.dropdownDisplayName}: ${n.dropdown}`);
+    // only as many lines as fit in the gap before the next card below
+    const fit = Math.min(DETAIL_LINE_LIMIT, Math.floor((this.getDetailSpace(n) - 3) / VALUE_ROW_HEIGHT));
+    if (lines.length === 0 || fit <= 0) return;
+
+    ctx.save();
+    ctx.font = FONT.value;
+    ctx.textAlign = "left";
+    ctx.textBaseline = "top";
+    ctx.lineJoin = "round";
+    ctx.lineWidth = 3 / this.scale;
+    ctx.strokeStyle = halo;
+    ctx.fillStyle = color;
+    lines.slice(0, fit).forEach((line, i) => {
+      const ly = top + 3 + i * VALUE_ROW_HEIGHT;
+      ctx.strokeText(line, x + 2, ly, w - 4);
+      ctx.fillText(line, x + 2, ly, w - 4);
+    });
+    ctx.restore();
+  }
+
+  /** World space under a card before the next one: stacked leaves, siblings (LR / RL) or the next level */
+  private getDetailSpace(n: LayoutNode): number {
+    const s = this.settings.layout;
+    if (n.rail) return Math.max(8, s.siblingSpacing / 2);
+    if (s.orientation === "LR" || s.orientation === "RL") return s.siblingSpacing;
+    if (s.orientation === "radial") return Math.min(s.levelSpacing, s.siblingSpacing);
+    return s.levelSpacing;
+  }
+
+  /** Conservative bounds test: both cards, the compact rail, and for radial links the ring arc between them */
+  private isLinkInView(
+    source: LayoutNode,
+    target: LayoutNode,
+    inView: (x0: number, y0: number, x1: number, y1: number) => boolean
+  ): boolean {
+    const sHalf = Math.max(source.w, source.h) / 2;
+    const tHalf = Math.max(target.w, target.h) / 2;
+    let x0 = Math.min(source.x - sHalf, target.x - tHalf);
+    let y0 = Math.min(source.y - sHalf, target.y - tHalf);
+    let x1 = Math.max(source.x + sHalf, target.x + tHalf);
+    let y1 = Math.max(source.y + sHalf, target.y + tHalf);
+    if (target.rail) {
+      x0 = Math.min(x0, target.rail.x);
+      x1 = Math.max(x1, target.rail.x);
     }
+    if (source.polar && target.polar) {
+      const midR = (source.polar.radius + target.polar.radius) / 2;
+      const a0 = Math.min(source.polar.angle, target.polar.angle) - Math.PI / 2;
+      const a1 = Math.max(source.polar.angle, target.polar.angle) - Math.PI / 2;
+      const angles = [a0, a1];
+      for (let k = Math.ceil(a0 / (Math.PI / 2)); k * (Math.PI / 2) <= a1; k++) angles.push(k * (Math.PI / 2));
+      for (const a of angles) {
+        const px = midR * Math.cos(a);
+        const py = midR * Math.sin(a);
+        x0 = Math.min(x0, px);
+        y0 = Math.min(y0, py);
+        x1 = Math.max(x1, px);
+        y1 = Math.max(y1, py);
+      }
+    }
+    return inView(x0, y0, x1, y1);
+  }
 
+  /** Top-Down / Bottom-Up (radial counts as neither) */
+  private isVerticalFlow(): boolean {
+    const o = this.settings.layout.orientation;
+    return o === "TD" || o === "BU";
+  }
+
+  /** +1 when children sit below/right of their parent, -1 for Bottom-Up and Right-Left */
+  private getFlowSign(): number {
+    const o = this.settings.layout.orientation;
+    return o === "BU" || o === "RL" ? -1 : 1;
+  }
+
+  private drawLinkLabels(
+    ctx: CanvasRenderingContext2D,
+    color: string,
+    halo: string,
+    inView: (x0: number, y0: number, x1: number, y1: number) => boolean
+  ): void {
+    const formatter = this.linkValueColumn?.formatters.card;
+    const vertical = this.isVerticalFlow();
+    const flow = this.getFlowSign();
+
+    // labels sit on the child side of the elbow
+    ctx.save();
+    ctx.font = FONT.value;
+    ctx.textAlign = !vertical && flow < 0 ? "right" : "left";
+    ctx.textBaseline = vertical && flow > 0 ? "top" : "bottom";
+    ctx.lineJoin = "round";
+    ctx.lineWidth = 3 / this.scale;
+    ctx.strokeStyle = halo;
+    ctx.fillStyle = color;
+    for (const l of this.links) {
+      const text = this.formatValue(l.target.linkValue, formatter);
+      if (!text) continue;
+      const elbow = this.getLinkLabelPoint(l.source, l.target);
+      if (!inView(elbow.x, elbow.y, elbow.x, elbow.y)) continue;
+      const lx = !vertical && flow < 0 ? elbow.x - 4 : elbow.x + 4;
+      const ly = vertical && flow > 0 ? elbow.y + 2 : elbow.y - 2;
+      ctx.strokeText(text, lx, ly);
+      ctx.fillText(text, lx, ly);
+    }
     ctx.restore();
   }
 
+  /** Orthogonal elbow from the source card's edge to the target card's edge */
+  private drawLink(
+    ctx: CanvasRenderingContext2D,
+    source: LayoutNode,
+    target: LayoutNode,
+    tipStyle: LineTipStyle,
+    tipSize: number
+  ): void {
+    const shape = this.settings.lines.linkShape;
+
+    if (this.settings.layout.orientation === "radial" && source.polar && target.polar) {
+      if (shape === "curved" || shape === "straight") {
+        this.strokeLinkCurve(ctx, this.getRadialCurve(source, target), shape, tipStyle, tipSize);
+        return;
+      }
+      // radial elbow (rounded too: the ring arc already softens the turn):
+      // out along the parent's ray, around the ring between levels, out to the child
+      const sa = source.polar.angle - Math.PI / 2;
+      const ta = target.polar.angle - Math.PI / 2;
+      const r1 = source.polar.radius;
+      const r2 = target.polar.radius;
+      const endR = r2 - this.getRadialHalfExtent(target, ta);
+
+      ctx.beginPath();
+      if (r1 === 0) {
+        const startR = this.getRadialHalfExtent(source, ta);
+        ctx.moveTo(startR * Math.cos(ta), startR * Math.sin(ta));
+      } else {
+        const startR = r1 + this.getRadialHalfExtent(source, sa);
+        const midR = (r1 + r2) / 2;
+        ctx.moveTo(startR * Math.cos(sa), startR * Math.sin(sa));
+        ctx.lineTo(midR * Math.cos(sa), midR * Math.sin(sa));
+        ctx.arc(0, 0, midR, sa, ta, ta < sa);
+      }
+      ctx.lineTo(endR * Math.cos(ta), endR * Math.sin(ta));
+      ctx.stroke();
+
+      if (tipStyle !== "none") {
+        this.drawLineTip(ctx, endR * Math.cos(ta), endR * Math.sin(ta), ta, tipStyle, tipSize);
+      }
+      return;
+    }
+
+    const route = this.getLinkRoute(source, target);
+    if (shape === "curved" || shape === "straight") {
+      const curve = [route[0], route[1], route[route.length - 2], route[route.length - 1]];
+      this.strokeLinkCurve(ctx, curve, shape, tipStyle, tipSize);
+      return;
+    }
+
+    const radius = shape === "rounded" ? this.settings.lines.linkCornerRadius : 0;
+    ctx.beginPath();
+    ctx.moveTo(route[0].x, route[0].y);
+    for (let i = 1; i < route.length - 1; i++) {
+      const prev = route[i - 1];
+      const corner = route[i];
+      const next = route[i + 1];
+      // keep the arc inside both legs so short elbows stay tidy
+      const r = Math.min(
+        radius,
+        Math.hypot(corner.x - prev.x, corner.y - prev.y) / 2,
+        Math.hypot(next.x - corner.x, next.y - corner.y) / 2
+      );
+      if (r > 0) ctx.arcTo(corner.x, corner.y, next.x, next.y, r);
+      else ctx.lineTo(corner.x, corner.y);
+    }
+    const last = route[route.length - 1];
+    ctx.lineTo(last.x, last.y);
+    ctx.stroke();
+
+    if (tipStyle !== "none") {
+      this.drawLineTip(ctx, last.x, last.y, this.getLinkEndAngle(route), tipStyle, tipSize);
+    }
+  }
+
+  /** Cubic Bézier (like d3 linkVertical/linkHorizontal) or a straight line through the curve's ends */
+  private strokeLinkCurve(
+    ctx: CanvasRenderingContext2D,
+    curve: LinkPoint[],
+    shape: LinkShape,
+    tipStyle: LineTipStyle,
+    tipSize: number
+  ): void {
+    const [p0, c1, c2, p3] = curve;
+    ctx.beginPath();
+    ctx.moveTo(p0.x, p0.y);
+    if (shape === "straight") ctx.lineTo(p3.x, p3.y);
+    else ctx.bezierCurveTo(c1.x, c1.y, c2.x, c2.y, p3.x, p3.y);
+    ctx.stroke();
+
+    if (tipStyle !== "none") {
+      const path = shape === "straight" ? [p0, p3] : curve;
+      this.drawLineTip(ctx, p3.x, p3.y, this.getLinkEndAngle(path), tipStyle, tipSize);
+    }
+  }
+
+  /** Direction of the final non-empty segment, so tips follow the shape into the card */
+  private getLinkEndAngle(points: LinkPoint[]): number {
+    const end = points[points.length - 1];
+    for (let i = points.length - 2; i >= 0; i--) {
+      const dx = end.x - points[i].x;
+      const dy = end.y - points[i].y;
+      if (Math.abs(dx) > 1e-6 || Math.abs(dy) > 1e-6) return Math.atan2(dy, dx);
+    }
+    return Math.PI / 2;
+  }
+
   private roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, r: number): void {
     const rr = Math.min(r, w / 2, h / 2);
     ctx.beginPath();
@@ -1806,7 +4921,7 @@ export class Visual implements IVisual {
     ctx: CanvasRenderingContext2D,
     x: number,
     y: number,
-    dir: "down" | "right",
+    dir: "down" | "up" | "right" | "left" | number,
     style: "arrow" | "square" | "diamond" | "circle",
     sizePx: number
   ): void {
@@ -1815,28 +4930,29 @@ export class Visual implements IVisual {
     ctx.fillStyle = ctx.strokeStyle as string;
     ctx.strokeStyle = ctx.strokeStyle as string;
 
+    // shapes are drawn pointing right, then turned to the link direction
+    ctx.translate(x, y);
+    if (typeof dir === "number") {
+      ctx.rotate(dir);
+    } else if (dir === "down") {
+      ctx.rotate(Math.PI / 2);
+    } else if (dir === "up") {
+      ctx.rotate(-Math.PI / 2);
+    } else if (dir === "left") {
+      ctx.rotate(Math.PI);
+    }
+
     if (style === "arrow") {
       ctx.beginPath();
-      if (dir === "down") {
-        ctx.moveTo(x, y);
-        ctx.lineTo(x - size, y - size * 1.5);
-        ctx.lineTo(x + size, y - size * 1.5);
-      } else {
-        ctx.moveTo(x, y);
-        ctx.lineTo(x - size * 1.5, y - size);
-        ctx.lineTo(x - size * 1.5, y + size);
-      }
+      ctx.moveTo(0, 0);
+      ctx.lineTo(-size * 1.5, -size);
+      ctx.lineTo(-size * 1.5, size);
       ctx.closePath();
       ctx.fill();
       ctx.restore();
       return;
     }
 
-    ctx.translate(x, y);
-    if (dir === "down") {
-      ctx.rotate(Math.PI / 2);
-    }
-
     if (style === "square") {
       const half = size;
       ctx.beginPath();
@@ -1857,17 +4973,111 @@ export class Visual implements IVisual {
     ctx.restore();
   }
 
-  private ellipsis(text: string, max: number): string {
-    if (!text) return "";
-    return text.length <= max ? text : text.slice(0, max - 1) + "…";
+  private isCountRollup(): boolean {
+    const mode = this.settings.rollup.mode;
+    return mode === "descendants" || mode === "leaves";
+  }
+
+  private getRollupLabel(mode: RollupMode = this.settings.rollup.mode): string {
+    switch (mode) {
+      case "sum": return this.localize("Rollup.Sum", "Total");
+      case "average": return this.localize("Rollup.Average", "Average");
+      case "min": return this.localize("Rollup.Min", "Min");
+      case "max": return this.localize("Rollup.Max", "Max");
+      case "descendants": return this.localize("Rollup.Descendants", "Descendants");
+      case "leaves": return this.localize("Rollup.Leaves", "Leaves");
+      default: return "";
+    }
+  }
+
+  /** Own value, the rollup, or both ("own (Total rollup)") depending on the Rollup card */
+  private formatMeasure(node: LayoutNode, measureIndex: number, target: keyof ValueFormatters): string {
+    const formatter = this.measureColumns[measureIndex]?.formatters[target];
+    const own = this.formatValue(node.values?.[measureIndex], formatter);
+    const rolled = this.formatValue(node.rollup?.values[measureIndex], formatter);
+    if (!rolled) return own;
+    if (!own || !this.settings.rollup.showOwnValue) return rolled;
+    return `${own} (${this.getRollupLabel()} ${rolled})`;
+  }
+
+  private getCardRowLabel(node: LayoutNode, row: CardRow): string {
+    if (!row.kpi) return row.label;
+    const kpi = this.getKpi(node);
+    return kpi ? `${row.label} ${this.formatValue(kpi.target, this.targetColumn?.formatters.card)}` : row.label;
+  }
+
+  private getCardRowText(node: LayoutNode, row: CardRow): string {
+    if (row.kpi) return this.formatKpiVariance(node, "card");
+    if (row.measureIndex !== null) return this.formatMeasure(node, row.measureIndex, "card");
+    return node.rollup ? this.formatValue(node.rollup.count) : "";
+  }
+
+  private getKpi(node: LayoutNode): Kpi | null {
+    if (!this.showKpi()) return null;
+    const own = node.values?.[0];
+    const rolled = typeof own !== "number";
+    const actual = rolled ? node.rollup?.values[0] : own;
+    // a rolled-up actual is compared with the targets rolled up the same way, else the node's own
+    const target = rolled ? (node.rollup?.target ?? node.target) : node.target;
+    if (typeof actual !== "number" || !Number.isFinite(actual)) return null;
+    if (typeof target !== "number" || !Number.isFinite(target)) return null;
+
+    const variance = actual - target;
+    const variancePercent = target === 0 ? null : (variance / Math.abs(target)) * 100;
+    return { actual, target, variance, variancePercent, status: this.getKpiStatus(variance, variancePercent) };
+  }
+
+  /** Thresholds are variance % in the "better" direction; a zero target only counts the sign */
+  private getKpiStatus(variance: number, variancePercent: number | null): KpiStatus {
+    const kpi = this.settings.kpi;
+    const sign = kpi.direction === "lowerIsBetter" ? -1 : 1;
+    const score = variancePercent === null
+      ? (variance === 0 ? 0 : sign * Math.sign(variance) * Infinity)
+      : sign * variancePercent;
+    if (score >= kpi.goodThreshold) return "good";
+    if (score < kpi.badThreshold) return "bad";
+    return "neutral";
+  }
+
+  private getKpiColor(status: KpiStatus): string {
+    const kpi = this.settings.kpi;
+    return status === "good" ? kpi.goodColor : status === "bad" ? kpi.badColor : kpi.neutralColor;
+  }
+
+  private formatKpiVariance(node: LayoutNode, target: keyof ValueFormatters): string {
+    const kpi = this.getKpi(node);
+    if (!kpi) return "";
+    const absolute = this.formatSigned(kpi.variance, this.targetColumn?.formatters[target]);
+    const percent = this.formatVariancePercent(kpi.variancePercent);
+    return percent ? `${absolute} (${percent})` : absolute;
   }
 
-  private formatValue(value: number | string | null | undefined): string {
+  private formatSigned(value: number, formatter?: IValueFormatter): string {
+    const text = this.formatValue(value, formatter);
+    return value > 0 && !text.startsWith("+") ? `+${text}` : text;
+  }
+
+  private formatVariancePercent(value: number | null): string {
+    if (value === null) return "";
+    const text = value.toLocaleString(this.host.locale, { maximumFractionDigits: 1 });
+    return `${value > 0 ? "+" : ""}${text}%`;
+  }
+
+  private formatValue(value: number | string | null | undefined, formatter?: IValueFormatter): string {
     if (value === null || value === undefined) return "";
-    if (typeof value === "number" && Number.isFinite(value)) return value.toLocaleString();
+    if (formatter) return formatter.format(value);
+    if (typeof value === "number" && Number.isFinite(value)) return value.toLocaleString(this.host.locale);
     return String(value);
   }
 
+  /** Title alignment as set, mirrored for Right-Left */
+  private getTitleAlign(): "left" | "center" | "right" {
+    const align = this.settings.nodes.titleAlign;
+    if (align === "center") return "center";
+    if (this.settings.layout.orientation !== "RL") return align;
+    return align === "left" ? "right" : "left";
+  }
+
   private getTitleFontSpec(): { font: string; size: number; lineHeight: number } {
     const nodes = this.settings.nodes;
     const size = Math.max(6, nodes.titleFontSize || 11);
@@ -1927,6 +5137,24 @@ export class Visual implements IVisual {
     ctx.fillText(value.slice(0, cut) + ellipsis, x, y);
   }
 
+  /** Line count drawWrappedText would produce for this text and width */
+  private countWrappedLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): number {
+    const words = (text ?? "").split(/\s+/).filter(Boolean);
+    if (words.length === 0) return 1;
+    let line = "";
+    let lines = 1;
+    for (const word of words) {
+      const test = line ? line + " " + word : word;
+      if (ctx.measureText(test).width > maxWidth && line) {
+        lines++;
+        line = word;
+      } else {
+        line = test;
+      }
+    }
+    return lines;
+  }
+
   private drawWrappedText(
     ctx: CanvasRenderingContext2D,
     text: string,
@@ -1954,23 +5182,20 @@ export class Visual implements IVisual {
       const test = line ? line + " " + w : w;
 
       if (ctx.measureText(test).width > maxWidth && line) {
-        ctx.fillText(line, x, y + lines * lineHeight);
-        lines++;
-
+        // the last allowed line takes the rest of the text, cut to the width
         if (lines >= maxLines - 1) {
-          const remaining = words.slice(i).join(" ");
-          ctx.fillText(this.ellipsis(remaining, 40), x, y + lines * lineHeight);
-          ctx.textAlign = prevAlign;
-          return;
+          line = [line, ...words.slice(i)].join(" ");
+          break;
         }
-
+        ctx.fillText(line, x, y + lines * lineHeight);
+        lines++;
         line = w;
       } else {
         line = test;
       }
     }
 
-    if (line && lines < maxLines) ctx.fillText(line, x, y + lines * lineHeight);
+    if (line && lines < maxLines) this.drawSingleLineText(ctx, line, x, y + lines * lineHeight, maxWidth);
 
     ctx.textAlign = prevAlign;
   }
@@ -1980,15 +5205,43 @@ export class Visual implements IVisual {
 
     if (node.label) items.push({ displayName: this.labelDisplayName, value: node.label });
 
-    const valueText = this.formatValue(node.value);
-    if (valueText) items.push({ displayName: this.valueDisplayName, value: valueText });
+    this.measureColumns.forEach((m, i) => {
+      const valueText = this.formatValue(node.values?.[i], m.formatters.tooltip);
+      if (valueText) items.push({ displayName: m.displayName, value: valueText });
+      const rollupText = this.formatValue(node.rollup?.values[i], m.formatters.tooltip);
+      if (rollupText) items.push({ displayName: `${this.getRollupLabel()} ${m.displayName}`, value: rollupText });
+    });
+    if (node.rollup && this.isCountRollup()) {
+      items.push({ displayName: this.getRollupLabel(), value: this.formatValue(node.rollup.count) });
+    }
 
-    const sparkText = this.formatValue(node.sparkline);
+    const sparkText = this.formatValue(node.sparkline, this.sparklineFormatters?.tooltip);
     if (sparkText) items.push({ displayName: this.sparklineDisplayName, value: sparkText });
 
-    const tooltipText = this.formatValue(node.tooltip);
+    const tooltipText = this.formatValue(node.tooltip, this.tooltipFormatters?.tooltip);
     if (tooltipText) items.push({ displayName: this.tooltipDisplayName, value: tooltipText });
 
+    if (this.targetColumn) {
+      const kpi = this.getKpi(node);
+      const targetText = this.formatValue(kpi ? kpi.target : node.target, this.targetColumn.formatters.tooltip);
+      if (targetText) items.push({ displayName: this.targetColumn.displayName, value: targetText });
+      if (kpi) {
+        items.push({
+          displayName: this.localize("KPI.Variance", "Variance"),
+          value: this.formatSigned(kpi.variance, this.targetColumn.formatters.tooltip)
+        });
+        const percent = this.formatVariancePercent(kpi.variancePercent);
+        if (percent) items.push({ displayName: this.localize("KPI.VariancePercent", "Variance %"), value: percent });
+      }
+    }
+
+    if (this.linkValueColumn) {
+      const linkText = this.formatValue(node.linkValue, this.linkValueColumn.formatters.tooltip);
+      if (linkText) items.push({ displayName: this.linkValueColumn.displayName, value: linkText });
+    }
+
+    if (node.url) items.push({ displayName: this.urlDisplayName, value: node.url });
+
     return items;
   }
 
@@ -2062,8 +5315,15 @@ export class Visual implements IVisual {
   // ---------------------------
   // Interactions
   // ---------------------------
+  /** Keyboard order for the current view */
+  private getNavigableNodes(): LayoutNode[] {
+    if (this.viewMode === "table") return this.tableRows;
+    if (this.isPartitionView()) return this.partitionCells.map(c => c.node);
+    return this.nodes;
+  }
+
   private onKeyDown(e: KeyboardEvent): void {
-    const list = this.viewMode === "table" ? this.tableRows : this.nodes;
+    const list = this.getNavigableNodes();
     if (!list.length) return;
 
     let idx = list.findIndex(n => n.id === this.focusedNodeId);
@@ -2074,11 +5334,11 @@ export class Visual implements IVisual {
     switch (e.key) {
       case "ArrowDown":
       case "ArrowRight":
-        idx = Math.min(list.length - 1, idx + 1);
-        break;
       case "ArrowUp":
       case "ArrowLeft":
-        idx = Math.max(0, idx - 1);
+        idx = this.isForwardKey(e.key)
+          ? Math.min(list.length - 1, idx + 1)
+          : Math.max(0, idx - 1);
         break;
       case "Home":
         idx = 0;
@@ -2092,8 +5352,12 @@ export class Visual implements IVisual {
         this.focusedNodeId = list[idx].id;
         this.focusedIndex = idx;
         this.selectedIds.clear();
-        this.selectedIds.add(list[idx].id);
-        this.selectionManager.select(list[idx].selectionId, false);
+        if (this.isSyntheticId(list[idx].id)) {
+          this.selectionManager.clear();
+        } else {
+          this.selectedIds.add(list[idx].id);
+          this.selectionManager.select(this.getSelectionIds(list[idx]), false);
+        }
         this.renderView();
         e.preventDefault();
         return;
@@ -2101,14 +5365,22 @@ export class Visual implements IVisual {
       case "=":
         this.focusedNodeId = list[idx].id;
         this.focusedIndex = idx;
-        if (this.collapsedIds.has(list[idx].id)) this.toggleCollapse(list[idx].id);
+        if (this.isPartitionView()) {
+          if (idx > 0) this.zoomPartition(list[idx].id);
+        } else if (this.collapsedIds.has(list[idx].id)) {
+          this.toggleCollapse(list[idx].id);
+        }
         e.preventDefault();
         return;
       case "-":
       case "_":
         this.focusedNodeId = list[idx].id;
         this.focusedIndex = idx;
-        if (!this.collapsedIds.has(list[idx].id)) this.toggleCollapse(list[idx].id);
+        if (this.isPartitionView()) {
+          this.zoomPartition(list[0].id);
+        } else if (!this.collapsedIds.has(list[idx].id)) {
+          this.toggleCollapse(list[idx].id);
+        }
         e.preventDefault();
         return;
       default:
@@ -2122,14 +5394,45 @@ export class Visual implements IVisual {
     this.renderView();
   }
 
+  /** Down/Right step forward; the tree flips that for Bottom-Up and Right-Left */
+  private isForwardKey(key: string): boolean {
+    const orientation = this.settings.layout.orientation;
+    if (key === "ArrowDown") return !(this.viewMode === "tree" && orientation === "BU");
+    if (key === "ArrowUp") return this.viewMode === "tree" && orientation === "BU";
+    const rtl = orientation === "RL";
+    return key === "ArrowRight" ? !rtl : rtl;
+  }
+
   private wireInteractions(): void {
     let isPanning = false;
     let lastX = 0;
     let lastY = 0;
+    // minimap drag: offset from the grabbed point to the view centre (zero when clicked outside the viewport box)
+    let minimapGrab: { dx: number; dy: number } | null = null;
+    // the click that ends a gesture begun on the minimap lands wherever the pointer was released
+    let minimapGesture = false;
 
     this.canvas.addEventListener("pointerdown", (e) => {
       if (this.viewMode !== "tree") return;
+      this.finishTransition();
       this.canvas.setPointerCapture(e.pointerId);
+
+      const mini = this.minimapToWorld(e.clientX, e.clientY);
+      minimapGesture = mini?.inside === true;
+      if (mini?.inside) {
+        const center = this.getViewCenter();
+        const halfW = this.lastViewportW / this.scale / 2;
+        const halfH = this.lastViewportH / this.scale / 2;
+        const onViewport = Math.abs(mini.x - center.x) <= halfW && Math.abs(mini.y - center.y) <= halfH;
+        minimapGrab = onViewport ? { dx: center.x - mini.x, dy: center.y - mini.y } : { dx: 0, dy: 0 };
+        if (!onViewport) {
+          this.centerViewOn(mini.x, mini.y);
+          this.requestRender();
+        }
+        this.hideTooltip();
+        return;
+      }
+
       isPanning = e.button === 1 || e.shiftKey; // middle mouse or Shift+drag
       lastX = e.clientX;
       lastY = e.clientY;
@@ -2137,7 +5440,25 @@ export class Visual implements IVisual {
     });
 
     this.canvas.addEventListener("pointermove", (e) => {
-      if (this.viewMode !== "tree") return;
+      if (this.viewMode === "table") return;
+      if (minimapGrab) {
+        const mini = this.minimapToWorld(e.clientX, e.clientY);
+        if (mini) {
+          this.centerViewOn(mini.x + minimapGrab.dx, mini.y + minimapGrab.dy);
+          this.requestRender();
+        }
+        return;
+      }
+      if (this.isMinimapHit(e.clientX, e.clientY)) {
+        if (this.hoveredId) {
+          this.hoveredId = null;
+          this.requestRender();
+        }
+        this.canvas.style.cursor = "move";
+        this.canvas.title = "";
+        this.hideTooltip();
+        return;
+      }
       if (isPanning) {
         const dx = e.clientX - lastX;
         const dy = e.clientY - lastY;
@@ -2145,7 +5466,7 @@ export class Visual implements IVisual {
         lastY = e.clientY;
         this.tx += dx;
         this.ty += dy;
-        this.renderTree(this.lastViewportW, this.lastViewportH);
+        this.requestRender();
         return;
       }
 
@@ -2155,9 +5476,12 @@ export class Visual implements IVisual {
 
       if (nextHover !== this.hoveredId) {
         this.hoveredId = nextHover;
-        this.canvas.style.cursor = hit ? "pointer" : "default";
-        this.renderTree(this.lastViewportW, this.lastViewportH);
+        this.requestRender();
       }
+      this.canvas.style.cursor = hit ? "pointer" : "default";
+      this.canvas.title = hit && this.getLinkHit(hit.node.id, hit.worldX, hit.worldY)
+        ? this.localize("Link.Open", "Open link")
+        : "";
 
       if (hit) {
         if (prevHover !== hit.node.id) this.showTooltip(hit, e);
@@ -2170,19 +5494,21 @@ export class Visual implements IVisual {
     this.canvas.addEventListener("pointerup", () => {
       if (this.viewMode !== "tree") return;
       isPanning = false;
+      minimapGrab = null;
     });
 
     this.canvas.addEventListener("pointerleave", () => {
-      if (this.viewMode !== "tree") return;
+      if (this.viewMode === "table") return;
       this.hoveredId = null;
       this.hideTooltip();
-      this.renderTree(this.lastViewportW, this.lastViewportH);
+      this.requestRender();
     });
 
     this.canvas.addEventListener("wheel", (e) => {
       if (this.viewMode !== "tree") return;
       e.preventDefault();
       this.hideTooltip();
+      this.finishTransition();
 
       const delta = -e.deltaY;
       const zoomFactor = delta > 0 ? 1.1 : 0.9;
@@ -2198,17 +5524,19 @@ export class Visual implements IVisual {
       this.ty = my - (my - this.ty) * (next / prev);
       this.scale = next;
       this.updateZoomLabel();
-
-      this.renderTree(this.lastViewportW, this.lastViewportH);
+      this.requestRender();
     }, { passive: false });
 
     this.canvas.addEventListener("dblclick", (e) => {
       if (this.viewMode !== "tree") return;
       if (!this.allowInteractions) return;
+      if (this.isMinimapHit(e.clientX, e.clientY)) return;
       const hit = this.hitTest(e.clientX, e.clientY);
       if (!hit) return;
       if (this.isToggleHit(hit.node.id, hit.worldX, hit.worldY)) return;
+      if (this.getLinkHit(hit.node.id, hit.worldX, hit.worldY)) return;
 
+      this.finishTransition();
       const zoomPercent = Math.max(10, this.settings.controls.doubleClickZoomPercent);
       const factor = zoomPercent / 100;
       const next = Math.min(4, Math.max(0.2, this.scale * factor));
@@ -2226,40 +5554,50 @@ export class Visual implements IVisual {
     this.canvas.addEventListener("contextmenu", async (e) => {
       e.preventDefault();
       if (!this.allowInteractions) return;
-      if (this.viewMode !== "tree") return;
+      if (this.viewMode === "table") return;
+      if (this.isMinimapHit(e.clientX, e.clientY)) return;
 
       const hit = this.hitTest(e.clientX, e.clientY);
       if (!hit) return;
 
-      // ensure selection matches the context target
+      // ensure selection matches the context target; a synthetic group stands for no selection
       this.selectedIds.clear();
-      this.selectedIds.add(hit.node.id);
-      await this.selectionManager.select(hit.node.selectionId, false);
+      if (this.isSyntheticId(hit.node.id)) {
+        await this.selectionManager.clear();
+      } else {
+        this.selectedIds.add(hit.node.id);
+        await this.selectionManager.select(this.getSelectionIds(hit.node), false);
+      }
 
       // show Power BI context menu at mouse position
       const point = { x: e.clientX, y: e.clientY } as any;
       (this.selectionManager as any).showContextMenu?.(hit.node.selectionId, point);
 
-      this.renderTree(this.lastViewportW, this.lastViewportH);
+      this.renderCanvas();
     });
 
     // Left-click: collapse toggle OR select
     this.canvas.addEventListener("click", async (e) => {
       if (e.shiftKey) return; // shift reserved for panning
       if (!this.allowInteractions) return;
-      if (this.viewMode !== "tree") return;
+      if (this.viewMode === "table") return;
+      if (minimapGesture) {
+        minimapGesture = false;
+        return;
+      }
+      if (this.isMinimapHit(e.clientX, e.clientY)) return;
 
       const hit = this.hitTest(e.clientX, e.clientY);
       if (!hit) {
         this.selectedIds.clear();
         this.focusedNodeId = null;
         await this.selectionManager.clear();
-        this.renderTree(this.lastViewportW, this.lastViewportH);
+        this.renderCanvas();
         return;
       }
 
       this.focusedNodeId = hit.node.id;
-      this.focusedIndex = this.nodes.findIndex(n => n.id === hit.node.id);
+      this.focusedIndex = this.getNavigableNodes().findIndex(n => n.id === hit.node.id);
       this.canvas.focus();
 
       // First: check toggle (+/-) hit
@@ -2268,28 +5606,41 @@ export class Visual implements IVisual {
         return;
       }
 
+      // Link glyph opens the URL without touching the selection
+      const linkUrl = this.getLinkHit(hit.node.id, hit.worldX, hit.worldY);
+      if (linkUrl) {
+        this.host.launchUrl(linkUrl);
+        return;
+      }
+
       // Otherwise: normal selection
       const isMulti = e.ctrlKey || e.metaKey;
 
-      if (!isMulti) {
+      if (this.isSyntheticId(hit.node.id)) {
+        // the "All" root of treemap / icicle and the Unresolved group have no identity to select: they clear instead
         this.selectedIds.clear();
-        this.selectedIds.add(hit.node.id);
+        await this.selectionManager.clear();
       } else {
-        if (this.selectedIds.has(hit.node.id)) this.selectedIds.delete(hit.node.id);
-        else this.selectedIds.add(hit.node.id);
+        if (!isMulti) {
+          this.selectedIds.clear();
+          this.selectedIds.add(hit.node.id);
+        } else {
+          if (this.selectedIds.has(hit.node.id)) this.selectedIds.delete(hit.node.id);
+          else this.selectedIds.add(hit.node.id);
+        }
+        await this.selectionManager.select(this.getSelectionIds(hit.node), isMulti);
       }
-
-      await this.selectionManager.select(hit.node.selectionId, isMulti);
-      this.renderTree(this.lastViewportW, this.lastViewportH);
+      // treemap / icicle: a click also zooms into (or back out of) the subtree
+      if (!(this.isPartitionView() && !isMulti && this.zoomPartition(hit.node.id))) this.renderCanvas();
     });
 
     this.canvas.addEventListener("keydown", (e) => this.onKeyDown(e));
     this.tableContainer.addEventListener("keydown", (e) => this.onKeyDown(e));
 
     this.canvas.addEventListener("focus", () => {
-      if (this.viewMode !== "tree") return;
+      if (this.viewMode === "table") return;
       this.ensureFocus();
-      this.renderTree(this.lastViewportW, this.lastViewportH);
+      this.renderCanvas();
     });
 
     this.tableContainer.addEventListener("focus", () => {
@@ -2305,9 +5656,12 @@ export class Visual implements IVisual {
 
     if (this.collapsedIds.has(nodeId)) this.collapsedIds.delete(nodeId);
     else this.collapsedIds.add(nodeId);
+    this.saveExpansionState();
 
     // recompute layout based on collapsed state
+    const before = this.snapshotLayout();
     this.computeLayoutFromState(false, nodeId);
+    this.beginTransition(before);
     this.renderView();
   }
 
@@ -2320,24 +5674,60 @@ export class Visual implements IVisual {
     return false;
   }
 
+  private getLinkHit(nodeId: string, worldX: number, worldY: number): string | null {
+    for (let i = this.linkRects.length - 1; i >= 0; i--) {
+      const l = this.linkRects[i];
+      if (l.nodeId !== nodeId) continue;
+      if (worldX >= l.x && worldX <= l.x + l.w && worldY >= l.y && worldY <= l.y + l.h) return l.url;
+    }
+    return null;
+  }
+
   private hitTest(clientX: number, clientY: number): Hit | null {
     const rect = this.canvas.getBoundingClientRect();
     const sx = clientX - rect.left;
     const sy = clientY - rect.top;
 
+    // treemap / icicle cells are laid out in screen space; deepest (last drawn) first
+    if (this.isPartitionView()) {
+      for (let i = this.partitionCells.length - 1; i >= 0; i--) {
+        const c = this.partitionCells[i];
+        if (sx >= c.x && sx <= c.x + c.w && sy >= c.y && sy <= c.y + c.h) {
+          return { node: c.node, worldX: sx, worldY: sy, localX: sx - c.x, localY: sy - c.y };
+        }
+      }
+      return null;
+    }
+
     // screen -> world coords
     const wx = (sx - this.tx) / this.scale;
     const wy = (sy - this.ty) / this.scale;
 
-    for (let i = this.nodeRects.length - 1; i >= 0; i--) {
-      const r = this.nodeRects[i];
-      if (wx >= r.x && wx <= r.x + r.w && wy >= r.y && wy <= r.y + r.h) {
+    return this.hitNodeRects(wx, wy, this.nodeIndex.query(wx, wy));
+  }
+
+  /** Topmost card under a world point among nodeRects indices given in draw order */
+  private hitNodeRects(wx: number, wy: number, indices: number[]): Hit | null {
+    for (let k = indices.length - 1; k >= 0; k--) {
+      const r = this.nodeRects[indices[k]];
+      // turned cards: test in the card's frame (toggle/link rects are recorded in that frame too)
+      let px = wx;
+      let py = wy;
+      if (r.angle) {
+        const cx = r.x + r.w / 2;
+        const cy = r.y + r.h / 2;
+        const cos = Math.cos(-r.angle);
+        const sin = Math.sin(-r.angle);
+        px = cx + (wx - cx) * cos - (wy - cy) * sin;
+        py = cy + (wx - cx) * sin + (wy - cy) * cos;
+      }
+      if (px >= r.x && px <= r.x + r.w && py >= r.y && py <= r.y + r.h) {
         return {
           node: r.node,
-          worldX: wx,
-          worldY: wy,
-          localX: wx - r.x,
-          localY: wy - r.y
+          worldX: px,
+          worldY: py,
+          localX: px - r.x,
+          localY: py - r.y
         };
       }
     }